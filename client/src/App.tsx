@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { Switch, Route } from "wouter";
+import { Switch, Route, useLocation } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider, useQuery } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
@@ -10,18 +10,27 @@ import { ProjectInterface } from "@/components/ProjectInterface";
 import { DiscussionInterface } from "@/components/DiscussionInterface";
 import { Settings } from "@/components/Settings";
 import { CreateProjectDialog } from "@/components/CreateProjectDialog";
+import { SearchPalette } from "@/components/SearchPalette";
 import Agents from "@/pages/Agents";
 import Metrics from "@/pages/Metrics";
+import AuthPage from "@/pages/AuthPage";
+import SharedView from "@/pages/SharedView";
+import InvitePage from "@/pages/InvitePage";
+import { AuthProvider, useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
-import { Settings as SettingsIcon, Home, Bot, BarChart3, PanelLeftClose, PanelRightClose, Plus, Menu } from "lucide-react";
+import { Settings as SettingsIcon, Home, Bot, BarChart3, PanelLeftClose, PanelRightClose, Plus, Menu, LogOut, Loader2 } from "lucide-react";
 import { Link } from "wouter";
 import { PanelGroup, Panel, PanelResizeHandle } from "react-resizable-panels";
-import type { Project } from "@shared/schema";
+import type { Project, SearchResult } from "@shared/schema";
 
 function GrandCentral() {
   const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null);
   const [selectedDiscussionId, setSelectedDiscussionId] = useState<string | null>(null);
   const [showCreateProjectDialog, setShowCreateProjectDialog] = useState(false);
+  // Message to scroll to once the selected discussion renders (set from search)
+  const [highlightMessageId, setHighlightMessageId] = useState<string | null>(null);
+  const [, setLocation] = useLocation();
+  const { user, logoutMutation } = useAuth();
 
   // Fetch projects to auto-select the first one
   const { data: projects = [] } = useQuery<Project[]>({
@@ -35,6 +44,13 @@ function GrandCentral() {
     }
   }, [projects, selectedProjectId]);
 
+  const handleSearchSelect = (result: SearchResult) => {
+    setSelectedProjectId(result.projectId);
+    setSelectedDiscussionId(result.discussionId ?? null);
+    setHighlightMessageId(result.type === "message" ? result.id : null);
+    setLocation("/");
+  };
+
   // Custom sidebar width for collaborative workspace
   const style = {
     "--sidebar-width": "20rem",       // 320px for project navigation
@@ -61,6 +77,7 @@ function GrandCentral() {
             </div>
             
             <div className="flex items-center gap-2">
+              <SearchPalette onSelect={handleSearchSelect} />
               <Link to="/" data-testid="link-home">
                 <Button variant="ghost" size="icon">
                   <Home className="w-4 h-4" />
@@ -81,6 +98,19 @@ function GrandCentral() {
                   <SettingsIcon className="w-4 h-4" />
                 </Button>
               </Link>
+              <span className="text-sm text-muted-foreground pl-2" data-testid="text-username">
+                {user?.username}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => logoutMutation.mutate()}
+                disabled={logoutMutation.isPending}
+                title="Sign out"
+                data-testid="button-logout"
+              >
+                <LogOut className="w-4 h-4" />
+              </Button>
             </div>
           </header>
           
@@ -89,6 +119,8 @@ function GrandCentral() {
               <Route path="/settings" component={Settings} />
               <Route path="/agents" component={Agents} />
               <Route path="/metrics" component={Metrics} />
+              <Route path="/shared/:token" component={SharedView} />
+              <Route path="/invite/:token" component={InvitePage} />
               <Route path="/">
                 {selectedProjectId ? (
                   <PanelGroup direction="horizontal" className="flex-1">
@@ -109,6 +141,8 @@ function GrandCentral() {
                         <DiscussionInterface 
                           projectId={selectedProjectId}
                           discussionId={selectedDiscussionId}
+                          highlightMessageId={highlightMessageId}
+                          onHighlightShown={() => setHighlightMessageId(null)}
                           onBack={() => setSelectedDiscussionId(null)}
                         />
                       ) : (
@@ -175,11 +209,28 @@ function GrandCentral() {
   );
 }
 
+// Signed-out visitors only see the sign-in page
+function AuthGate() {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return user ? <GrandCentral /> : <AuthPage />;
+}
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
-        <GrandCentral />
+        <AuthProvider>
+          <AuthGate />
+        </AuthProvider>
         <Toaster />
       </TooltipProvider>
     </QueryClientProvider>
@@ -0,0 +1,60 @@
+import { Layers } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import type { ContextEntry, ContextReport, LLMUsage } from "@shared/schema";
+
+interface ContextUsageProps {
+  report: ContextReport;
+  usage?: LLMUsage; // Set once the reply is saved
+  testId?: string;
+}
+
+function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
+
+function EntryList({ title, entries }: { title: string; entries: ContextEntry[] }) {
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="space-y-1">
+      <div className="text-xs font-medium">{title}</div>
+      {entries.map((entry, index) => (
+        <div key={index} className="flex justify-between gap-3 text-xs text-muted-foreground">
+          <span className="truncate">
+            <span className="capitalize">{entry.kind}</span>: {entry.label}
+          </span>
+          {entry.tokens > 0 && <span className="shrink-0">{formatTokens(entry.tokens)}</span>}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Compact summary of what the context builder sent to a model, with details on click
+export function ContextUsage({ report, usage, testId }: ContextUsageProps) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+          data-testid={testId}
+        >
+          <Layers className="w-3 h-3" />
+          {formatTokens(report.used)} / {formatTokens(report.budget)} tokens
+          {report.dropped.length > 0 && <span>· {report.dropped.length} dropped</span>}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3">
+        <EntryList title="Included" entries={report.included} />
+        <EntryList title="Dropped" entries={report.dropped} />
+        {usage && (
+          <div className="border-t pt-2 text-xs text-muted-foreground">
+            {usage.model}: {usage.promptTokens.toLocaleString()} in / {usage.completionTokens.toLocaleString()} out
+            {usage.estimated && " (estimated)"} · ${usage.costUsd.toFixed(4)}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
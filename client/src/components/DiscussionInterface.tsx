@@ -1,104 +1,101 @@
-import { useState, useRef, useEffect } from "react";
-import { Send, MessageSquare, Loader2, Brain, Bot, Search, User, Lightbulb, Plus, Zap, Wind } from "lucide-react";
+import { useState, useRef, useEffect, useMemo } from "react";
+import { Send, MessageSquare, Loader2, Brain, Bot, User, Lightbulb, Plus, Wind, Swords, Lock, Unlock, type LucideIcon } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import { Discussion, Message, MessageSender } from "@shared/schema";
+import { Discussion, Message, MessageSender, MessageMetadata, DebateRequest, DiscussionPhase, PhaseTransition, Pattern, discussionPhases } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
+import { useDiscussionStream } from "@/hooks/use-discussion-stream";
+import { useProviders, getProviderIcon } from "@/hooks/use-providers";
 import { CreateDiscussionDialog } from "./CreateDiscussionDialog";
+import { ResponseModeControls } from "./ResponseModeControls";
+import { ContextUsage } from "./ContextUsage";
 
 interface DiscussionInterfaceProps {
   projectId: string | null;
   discussionId: string | null;
+  highlightMessageId?: string | null; // Scrolled to and briefly highlighted once rendered
+  onHighlightShown?: () => void;
   onBack?: () => void;
 }
 
-const LLM_CONFIG = {
-  claude: {
-    icon: Brain,
-    label: "Claude",
-    color: "hsl(var(--claude))",
-    foreground: "hsl(var(--claude-foreground))",
-    bgColor: "bg-[hsl(var(--claude))]",
-    textColor: "text-[hsl(var(--claude-foreground))]",
-    borderColor: "border-[hsl(var(--claude))]"
-  },
-  gpt4: {
-    icon: Bot,
-    label: "GPT-4",
-    color: "hsl(var(--gpt4))",
-    foreground: "hsl(var(--gpt4-foreground))",
-    bgColor: "bg-[hsl(var(--gpt4))]",
-    textColor: "text-[hsl(var(--gpt4-foreground))]",
-    borderColor: "border-[hsl(var(--gpt4))]"
-  },
-  deepseek: {
-    icon: Search,
-    label: "DeepSeek",
-    color: "hsl(var(--deepseek))",
-    foreground: "hsl(var(--deepseek-foreground))",
-    bgColor: "bg-[hsl(var(--deepseek))]",
-    textColor: "text-[hsl(var(--deepseek-foreground))]",
-    borderColor: "border-[hsl(var(--deepseek))]"
-  },
-  grok: {
-    icon: Zap,
-    label: "⚡ Grok",
-    color: "hsl(var(--grok))",
-    foreground: "hsl(var(--grok-foreground))",
-    bgColor: "bg-[hsl(var(--grok))]",
-    textColor: "text-[hsl(var(--grok-foreground))]",
-    borderColor: "border-[hsl(var(--grok))]"
-  },
+// Display config for non-LLM senders; LLM providers come from the provider registry
+const SENDER_CONFIG: Record<string, { icon: LucideIcon; label: string; color: string; foreground: string }> = {
   companion: {
     icon: Lightbulb,
     label: "🧠 Companion",
     color: "hsl(var(--companion))",
-    foreground: "hsl(var(--companion-foreground))",
-    bgColor: "bg-[hsl(var(--companion))]",
-    textColor: "text-[hsl(var(--companion-foreground))]",
-    borderColor: "border-[hsl(var(--companion))]"
+    foreground: "hsl(var(--companion-foreground))"
   },
   user: {
     icon: User,
     label: "You",
     color: "hsl(var(--primary))",
-    foreground: "hsl(var(--primary-foreground))",
-    bgColor: "bg-primary",
-    textColor: "text-primary-foreground",
-    borderColor: "border-primary"
+    foreground: "hsl(var(--primary-foreground))"
   }
-} as const;
+};
+
+// Section label for debate turns, e.g. "Round 2" or "Judge's synthesis"
+function getDebateLabel(metadata: unknown): string | null {
+  const meta = (metadata || {}) as MessageMetadata;
+  if (meta.debateRole === "synthesis") return "⚖️ Judge's synthesis";
+  if (meta.round) return `Round ${meta.round}`;
+  return null;
+}
 
 // Breathing Phase Configuration
 const PHASE_CONFIG = {
   plasma: { emoji: '🌌', label: 'Plasma', description: 'Ideation & Brainstorming', color: 'hsl(280, 100%, 70%)' },
   gas: { emoji: '☁️', label: 'Gas', description: 'Exploration & Research', color: 'hsl(200, 100%, 70%)' },
   liquid: { emoji: '💧', label: 'Liquid', description: 'Integration & Synthesis', color: 'hsl(180, 100%, 60%)' },
-  solid: { emoji: '🧊', label: 'Solid', description: 'Execution & Implementation', color: 'hsl(220, 80%, 60%)' },
-  unity: { emoji: '✨', label: 'Unity', description: 'Complete Understanding', color: 'hsl(50, 100%, 60%)' }
-} as const;
+  solid: { emoji: '🧊', label: 'Solid', description: 'Execution & Implementation', color: 'hsl(220, 80%, 60%)' }
+} satisfies Record<DiscussionPhase, { emoji: string; label: string; description: string; color: string }>;
+
+const TRANSITION_REASONS: Record<PhaseTransition["reason"], string> = {
+  classification: "conversation shifted",
+  pattern: "pattern completed",
+  breath: "breath count",
+  manual: "set manually"
+};
 
 export function DiscussionInterface({
   projectId,
   discussionId,
+  highlightMessageId,
+  onHighlightShown,
   onBack,
 }: DiscussionInterfaceProps) {
   const [input, setInput] = useState("");
   const [showCreateDiscussionDialog, setShowCreateDiscussionDialog] = useState(false);
-  const [activeModels, setActiveModels] = useState({
-    gpt4: true,
-    claude: true,
-    deepseek: true,
-    grok: true
-  });
-  const [celebratingPatterns, setCelebratingPatterns] = useState<Set<number>>(new Set());
+  // Toggle state keyed by provider sender; providers default to active
+  const [activeModels, setActiveModels] = useState<Record<string, boolean>>({});
+  // Per-request debate settings; null sends a normal message
+  const [debate, setDebate] = useState<DebateRequest | null>(null);
+  const [celebratingPatterns, setCelebratingPatterns] = useState<Set<string>>(new Set());
+  // Ids of patterns already known to be complete, so only new completions are celebrated
+  const completedPatternIds = useRef<Set<string> | null>(null);
+  const [flashMessageId, setFlashMessageId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { providers } = useProviders();
+
+  const LLM_CONFIG = useMemo(() => ({
+    ...Object.fromEntries(providers.map(p => [p.sender, {
+      icon: getProviderIcon(p.icon),
+      label: p.label,
+      color: p.color,
+      foreground: p.foreground
+    }])),
+    ...SENDER_CONFIG
+  }), [providers]);
+
+  const isModelActive = (sender: string) => activeModels[sender] !== false;
+  const providerNames = providers.map(p => p.label).join(", ");
 
   const { data: discussion } = useQuery<Discussion>({
     queryKey: ["/api/discussions", discussionId],
@@ -110,36 +107,64 @@ export function DiscussionInterface({
     enabled: !!discussionId
   });
 
+  // Pattern lifecycle records; refreshed with the discussion after each response
+  const { data: patterns = [] } = useQuery<Pattern[]>({
+    queryKey: ["/api/discussions", discussionId, "patterns"],
+    enabled: !!discussionId
+  });
+  const visiblePatterns = patterns.filter(pattern => pattern.status !== "dissolved");
+
   // Fetch companion suggestions for this discussion
   const { data: companionData = { suggestions: [] } } = useQuery<{ suggestions: any[] }>({
     queryKey: ["/api/companion/data"],
     enabled: !!discussionId
   });
 
-  const sendMessageMutation = useMutation({
-    mutationFn: (content: string) => {
-      const enabledModels = Object.entries(activeModels)
-        .filter(([_, isActive]) => isActive)
-        .map(([model]) => model);
-      
-      return apiRequest("POST", `/api/discussions/${discussionId}/messages`, { 
-        content,
-        enabledModels 
-      });
-    },
-    onSuccess: () => {
+  const messageStream = useDiscussionStream(discussionId, {
+    onDone: () => Promise.all([
+      queryClient.invalidateQueries({ queryKey: ["/api/discussions", discussionId, "messages"] }),
+      queryClient.invalidateQueries({ queryKey: ["/api/discussions", discussionId] }), // Update breathing data
+      queryClient.invalidateQueries({ queryKey: ["/api/companion/data"] })
+    ]),
+    onError: (error) => {
       queryClient.invalidateQueries({ queryKey: ["/api/discussions", discussionId, "messages"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/discussions", discussionId] }); // Update breathing data
-      queryClient.invalidateQueries({ queryKey: ["/api/companion/data"] });
-      setInput("");
-    },
-    onError: (error: any) => {
       toast({
         title: "Error",
         description: error.message || "Failed to send message",
         variant: "destructive",
       });
     },
+    onBudgetExceeded: (budget) => {
+      toast({
+        title: "Project budget exceeded",
+        description: `$${budget.spentUsd.toFixed(2)} spent of the $${budget.limitUsd.toFixed(2)} ${budget.period === "total" ? "total" : `per ${budget.period}`} budget.`,
+      });
+    },
+  });
+
+  const sendMessage = (content: string) => {
+    const enabledModels = providers
+      .filter(p => isModelActive(p.sender))
+      .map(p => p.sender);
+
+    setInput("");
+    messageStream.send(content, enabledModels, debate ?? undefined);
+  };
+
+  // Manual phase override; the server records and announces the transition
+  const updatePhase = useMutation({
+    mutationFn: (updates: { currentPhase?: DiscussionPhase; phaseLocked?: boolean }) =>
+      apiRequest("PATCH", `/api/discussions/${discussionId}`, updates),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/discussions", discussionId] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update phase",
+        variant: "destructive"
+      });
+    }
   });
 
   // Handle companion agent suggestion approval
@@ -169,16 +194,56 @@ export function DiscussionInterface({
     }
   });
 
-  // Auto-scroll to bottom when new messages arrive
+  // Auto-scroll to bottom when new messages or streamed tokens arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+  }, [messages, messageStream.streams]);
+
+  // Jump to a message opened from search once it has rendered (runs after the auto-scroll above)
+  useEffect(() => {
+    if (!highlightMessageId) return;
+    const element = document.querySelector(`[data-message-id="${CSS.escape(highlightMessageId)}"]`);
+    if (!element) return;
+
+    element.scrollIntoView({ behavior: "smooth", block: "center" });
+    setFlashMessageId(highlightMessageId);
+    onHighlightShown?.();
+  }, [highlightMessageId, messages]);
+
+  useEffect(() => {
+    completedPatternIds.current = null;
+    setCelebratingPatterns(new Set());
+  }, [discussionId]);
+
+  // Celebrate patterns that complete while the discussion is open
+  useEffect(() => {
+    const completed = patterns.filter(pattern => pattern.status === "complete");
+    if (!completedPatternIds.current) {
+      if (patterns.length > 0) completedPatternIds.current = new Set(completed.map(pattern => pattern.id));
+      return;
+    }
+    const known = completedPatternIds.current;
+    for (const pattern of completed.filter(pattern => !known.has(pattern.id))) {
+      known.add(pattern.id);
+      setCelebratingPatterns(prev => new Set(prev).add(pattern.id));
+      toast({
+        title: "✨ Pattern Complete!",
+        description: `"${pattern.label}" has crystallized into wisdom`,
+      });
+    }
+  }, [patterns]);
+
+  useEffect(() => {
+    if (!flashMessageId) return;
+    const timer = setTimeout(() => setFlashMessageId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [flashMessageId]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!input.trim() || !discussionId || sendMessageMutation.isPending) return;
+    if (!input.trim() || !discussionId || messageStream.isStreaming) return;
 
-    sendMessageMutation.mutate(input.trim());
+    sendMessage(input.trim());
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -244,6 +309,8 @@ export function DiscussionInterface({
     );
   }
 
+  const lastTransition = ((discussion.phaseHistory as PhaseTransition[] | null) || []).at(-1);
+
   // Group messages by user input to show LLM responses side-by-side
   const groupedMessages: Array<{
     userMessage?: Message;
@@ -309,51 +376,32 @@ export function DiscussionInterface({
           <div className="flex items-center gap-3 flex-wrap">
             <span className="text-sm font-medium text-muted-foreground">Active Models:</span>
             
-            <Button
-              variant={activeModels.gpt4 ? "default" : "outline"}
-              size="sm"
-              onClick={() => setActiveModels(prev => ({ ...prev, gpt4: !prev.gpt4 }))}
-              className={activeModels.gpt4 ? "bg-[hsl(var(--gpt4))] hover:bg-[hsl(var(--gpt4))]/90 border-[hsl(var(--gpt4))]" : ""}
-              data-testid="toggle-gpt4"
-            >
-              <Bot className="w-3 h-3 mr-1" />
-              GPT-4
-            </Button>
-            
-            <Button
-              variant={activeModels.claude ? "default" : "outline"}
-              size="sm"
-              onClick={() => setActiveModels(prev => ({ ...prev, claude: !prev.claude }))}
-              className={activeModels.claude ? "bg-[hsl(var(--claude))] hover:bg-[hsl(var(--claude))]/90 border-[hsl(var(--claude))]" : ""}
-              data-testid="toggle-claude"
-            >
-              <Brain className="w-3 h-3 mr-1" />
-              Claude
-            </Button>
-            
-            <Button
-              variant={activeModels.deepseek ? "default" : "outline"}
-              size="sm"
-              onClick={() => setActiveModels(prev => ({ ...prev, deepseek: !prev.deepseek }))}
-              className={activeModels.deepseek ? "bg-[hsl(var(--deepseek))] hover:bg-[hsl(var(--deepseek))]/90 border-[hsl(var(--deepseek))]" : ""}
-              data-testid="toggle-deepseek"
-            >
-              <Search className="w-3 h-3 mr-1" />
-              DeepSeek
-            </Button>
-            
-            <Button
-              variant={activeModels.grok ? "default" : "outline"}
-              size="sm"
-              onClick={() => setActiveModels(prev => ({ ...prev, grok: !prev.grok }))}
-              className={activeModels.grok ? "bg-[hsl(var(--grok))] hover:bg-[hsl(var(--grok))]/90 border-[hsl(var(--grok))]" : ""}
-              data-testid="toggle-grok"
-            >
-              <Zap className="w-3 h-3 mr-1" />
-              Grok
-            </Button>
+            {providers.map((provider) => {
+              const isActive = isModelActive(provider.sender);
+              const IconComponent = getProviderIcon(provider.icon);
+
+              return (
+                <Button
+                  key={provider.id}
+                  variant={isActive ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setActiveModels(prev => ({ ...prev, [provider.sender]: !isActive }))}
+                  className={isActive ? "hover:opacity-90" : ""}
+                  style={isActive ? { backgroundColor: provider.color, borderColor: provider.color, color: provider.foreground } : undefined}
+                  data-testid={`toggle-${provider.sender}`}
+                >
+                  <IconComponent className="w-3 h-3 mr-1" />
+                  {provider.label}
+                </Button>
+              );
+            })}
           </div>
         </div>
+
+        {/* Response Mode (parallel or sequential relay) */}
+        <div className="px-4 pb-4">
+          <ResponseModeControls discussion={discussion} providers={providers} />
+        </div>
         
         {/* Breathing Rhythm Indicator & Pattern Stack */}
         <div className="px-4 pb-4 flex gap-4">
@@ -364,12 +412,31 @@ export function DiscussionInterface({
                 <Wind className="w-5 h-5 text-primary" />
                 <div className="flex-1">
                   <div className="flex items-center gap-2">
-                    <span className="text-sm font-medium">
-                      Phase: {PHASE_CONFIG[discussion.currentPhase as keyof typeof PHASE_CONFIG]?.label || 'Plasma'}
-                    </span>
-                    <span className="text-lg">
-                      {PHASE_CONFIG[discussion.currentPhase as keyof typeof PHASE_CONFIG]?.emoji || '🌌'}
-                    </span>
+                    <Select
+                      value={discussion.currentPhase || "plasma"}
+                      onValueChange={(value) => updatePhase.mutate({ currentPhase: value as DiscussionPhase })}
+                    >
+                      <SelectTrigger className="h-7 w-auto gap-2 text-sm font-medium" data-testid="select-phase">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {discussionPhases.map(phase => (
+                          <SelectItem key={phase} value={phase}>
+                            {PHASE_CONFIG[phase].emoji} {PHASE_CONFIG[phase].label} · {PHASE_CONFIG[phase].description}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      title={discussion.phaseLocked ? "Phase locked - click to let it advance automatically" : "Phase advances automatically - click to lock"}
+                      onClick={() => updatePhase.mutate({ phaseLocked: !discussion.phaseLocked })}
+                      data-testid="button-phase-lock"
+                    >
+                      {discussion.phaseLocked ? <Lock className="w-3 h-3" /> : <Unlock className="w-3 h-3" />}
+                    </Button>
                   </div>
                   <div className="flex items-center gap-4 mt-1">
                     <Badge variant="secondary" className="text-xs" data-testid="breath-count-badge">
@@ -378,6 +445,11 @@ export function DiscussionInterface({
                     <Badge variant="outline" className="text-xs" data-testid="pattern-count-badge">
                       {(discussion.detectedPatterns as any)?.length || 0} Patterns
                     </Badge>
+                    {lastTransition && (
+                      <span className="text-xs text-muted-foreground" data-testid="last-phase-transition">
+                        {PHASE_CONFIG[lastTransition.from].label} → {PHASE_CONFIG[lastTransition.to].label} ({TRANSITION_REASONS[lastTransition.reason]})
+                      </span>
+                    )}
                   </div>
                 </div>
               </div>
@@ -385,41 +457,30 @@ export function DiscussionInterface({
           </Card>
           
           {/* Visual Pattern Stack */}
-          {(discussion.detectedPatterns as any)?.length > 0 && (
+          {visiblePatterns.length > 0 && (
             <Card className="flex-1">
               <div className="p-3">
                 <div className="text-xs font-medium text-muted-foreground mb-2">Detected Patterns:</div>
                 <div className="flex flex-wrap gap-2">
-                  {((discussion.detectedPatterns as any) || []).map((pattern: string, index: number) => {
-                    const strength = Math.min(1.0, 0.5 + (index * 0.2)); // Simulate strength
-                    const isComplete = strength >= 1.0;
-                    const isCelebrating = celebratingPatterns.has(index);
-                    
-                    // Trigger celebration when pattern completes
-                    if (isComplete && !isCelebrating) {
-                      setTimeout(() => {
-                        setCelebratingPatterns(prev => new Set(prev).add(index));
-                        toast({
-                          title: "✨ Pattern Complete!",
-                          description: `"${pattern}" has crystallized into wisdom`,
-                        });
-                      }, 100);
-                    }
+                  {visiblePatterns.map(pattern => {
+                    const isComplete = pattern.status === "complete";
+                    const isCelebrating = celebratingPatterns.has(pattern.id);
                     
                     return (
                       <Badge
-                        key={index}
+                        key={pattern.id}
                         className={`text-xs transition-all duration-500 ${isCelebrating ? 'scale-110 animate-pulse' : ''}`}
                         style={{
-                          opacity: 0.3 + (strength * 0.7),
+                          opacity: 0.3 + (pattern.strength * 0.7),
                           backgroundColor: isComplete ? 'hsl(142, 71%, 45%)' : 'hsl(45, 93%, 47%)',
                           color: 'white'
                         }}
-                        data-testid={`pattern-block-${index}`}
+                        title={`${pattern.status} · seen in ${pattern.detections} detection ${pattern.detections === 1 ? 'pass' : 'passes'}`}
+                        data-testid={`pattern-block-${pattern.id}`}
                       >
-                        <span>{pattern}</span>
+                        <span>{pattern.label}</span>
                         <span className="ml-2 text-[10px] opacity-80">
-                          {Math.round(strength * 100)}%
+                          {Math.round(pattern.strength * 100)}%
                         </span>
                         {isComplete && <span className="ml-1">✨</span>}
                       </Badge>
@@ -446,7 +507,7 @@ export function DiscussionInterface({
               Ask a question and get responses from multiple AI models
             </p>
             <p className="text-xs">
-              Type a message below to get insights from Claude, GPT-4, and DeepSeek
+              Type a message below to get insights from {providerNames}
             </p>
           </div>
         ) : (
@@ -455,7 +516,11 @@ export function DiscussionInterface({
               {/* User Message */}
               {group.userMessage && (
                 <div className="flex justify-end">
-                  <Card className="max-w-[80%] bg-primary text-primary-foreground border-primary" data-testid={`user-message-${group.userMessage.id}`}>
+                  <Card
+                    className={`max-w-[80%] bg-primary text-primary-foreground border-primary transition-shadow ${flashMessageId === group.userMessage.id ? "ring-2 ring-ring ring-offset-2" : ""}`}
+                    data-message-id={group.userMessage.id}
+                    data-testid={`user-message-${group.userMessage.id}`}
+                  >
                     <div className="p-4">
                       <div className="flex items-center gap-2 mb-2">
                         <User className="w-4 h-4" />
@@ -475,45 +540,66 @@ export function DiscussionInterface({
               {/* LLM Responses - Stacked */}
               {group.llmResponses.length > 0 && (
                 <div className="space-y-3">
-                  {group.llmResponses.map((message) => {
-                    const config = LLM_CONFIG[message.sender as keyof typeof LLM_CONFIG];
+                  {group.llmResponses.map((message, messageIndex) => {
+                    const config = LLM_CONFIG[message.sender];
                     const IconComponent = config?.icon || Bot;
+                    const debateLabel = getDebateLabel(message.metadata);
+                    const previousLabel = messageIndex > 0
+                      ? getDebateLabel(group.llmResponses[messageIndex - 1].metadata)
+                      : null;
                     
                     return (
-                      <div key={message.id} className="relative">
-                        <div 
-                          className="absolute left-0 top-0 bottom-0 w-1 rounded-l-md"
-                          style={{ backgroundColor: config?.color }}
-                        />
-                        <Card 
-                          className="ml-2" 
-                          data-testid={`llm-message-${message.id}`}
-                          data-llm-provider={message.sender}
-                          data-llm-color={config?.color}
-                        >
-                          <div className="p-4">
-                            <div className="flex items-center gap-2 mb-3">
-                              <Badge 
-                                className="text-xs"
-                                style={{ 
-                                  backgroundColor: config?.color, 
-                                  color: config?.foreground 
-                                }}
-                                data-testid={`llm-badge-${message.sender}`}
-                                data-badge-bg={config?.color}
-                              >
-                                <IconComponent className="w-3 h-3 mr-1" />
-                                {config?.label || message.sender}
-                              </Badge>
-                              <span className="text-xs text-muted-foreground">
-                                {new Date(message.createdAt!).toLocaleTimeString()}
-                              </span>
-                            </div>
-                            <div className="whitespace-pre-wrap text-sm">
-                              {message.content}
-                            </div>
+                      <div key={message.id} className="space-y-3">
+                        {debateLabel && debateLabel !== previousLabel && (
+                          <div className="flex items-center gap-2 text-xs font-medium text-muted-foreground" data-testid={`debate-section-${message.id}`}>
+                            <div className="h-px flex-1 bg-border" />
+                            {debateLabel}
+                            <div className="h-px flex-1 bg-border" />
                           </div>
-                        </Card>
+                        )}
+                        <div className="relative">
+                          <div 
+                            className="absolute left-0 top-0 bottom-0 w-1 rounded-l-md"
+                            style={{ backgroundColor: config?.color }}
+                          />
+                          <Card 
+                            className={`ml-2 transition-shadow ${flashMessageId === message.id ? "ring-2 ring-ring" : ""}`}
+                            data-message-id={message.id}
+                            data-testid={`llm-message-${message.id}`}
+                            data-llm-provider={message.sender}
+                            data-llm-color={config?.color}
+                          >
+                            <div className="p-4">
+                              <div className="flex items-center gap-2 mb-3">
+                                <Badge 
+                                  className="text-xs"
+                                  style={{ 
+                                    backgroundColor: config?.color, 
+                                    color: config?.foreground 
+                                  }}
+                                  data-testid={`llm-badge-${message.sender}`}
+                                  data-badge-bg={config?.color}
+                                >
+                                  <IconComponent className="w-3 h-3 mr-1" />
+                                  {config?.label || message.sender}
+                                </Badge>
+                                <span className="text-xs text-muted-foreground">
+                                  {new Date(message.createdAt!).toLocaleTimeString()}
+                                </span>
+                                {(message.metadata as MessageMetadata)?.context && (
+                                  <ContextUsage
+                                    report={(message.metadata as MessageMetadata).context!}
+                                    usage={(message.metadata as MessageMetadata).usage}
+                                    testId={`context-usage-${message.id}`}
+                                  />
+                                )}
+                              </div>
+                              <div className="whitespace-pre-wrap text-sm">
+                                {message.content}
+                              </div>
+                            </div>
+                          </Card>
+                        </div>
                       </div>
                     );
                   })}
@@ -566,52 +652,78 @@ export function DiscussionInterface({
           </div>
         ))}
         
-        {sendMessageMutation.isPending && (
+        {messageStream.isStreaming && (
           <div className="space-y-3">
             <div className="flex justify-end">
-              <Card className="max-w-[80%] bg-primary text-primary-foreground border-primary opacity-50">
+              <Card className={`max-w-[80%] bg-primary text-primary-foreground border-primary ${messageStream.userMessage ? '' : 'opacity-50'}`}>
                 <div className="p-4">
                   <div className="flex items-center gap-2 mb-2">
                     <User className="w-4 h-4" />
                     <span className="text-sm font-medium">You</span>
                   </div>
                   <div className="whitespace-pre-wrap text-sm">
-                    {input}
+                    {messageStream.pendingMessage}
                   </div>
                 </div>
               </Card>
             </div>
             
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
-              {["claude", "gpt4", "deepseek"].map((llm) => {
-                const config = LLM_CONFIG[llm as keyof typeof LLM_CONFIG];
-                const IconComponent = config.icon;
+            <div className="space-y-3">
+              {Object.values(messageStream.streams).map((stream) => {
+                const config = LLM_CONFIG[stream.sender];
+                const IconComponent = config?.icon || Bot;
+                
+                const debateLabel = getDebateLabel(stream);
                 
                 return (
-                  <Card 
-                    key={llm}
-                    className="border-2" 
-                    style={{ borderColor: config.color }}
-                  >
-                    <div className="p-4">
-                      <div className="flex items-center gap-2 mb-3">
-                        <Badge 
-                          className="text-xs"
-                          style={{ 
-                            backgroundColor: config.color, 
-                            color: config.foreground 
-                          }}
-                        >
-                          <IconComponent className="w-3 h-3 mr-1" />
-                          {config.label}
-                        </Badge>
-                      </div>
-                      <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                        <Loader2 className="w-4 h-4 animate-spin" />
-                        <span>Thinking...</span>
+                  <div key={stream.key} className="relative">
+                    <div 
+                      className="absolute left-0 top-0 bottom-0 w-1 rounded-l-md"
+                      style={{ backgroundColor: config?.color }}
+                    />
+                    <Card 
+                      className="ml-2" 
+                      data-testid={`llm-stream-${stream.key}`}
+                      data-stream-status={stream.status}
+                    >
+                      <div className="p-4">
+                        <div className="flex items-center gap-2 mb-3">
+                          <Badge 
+                            className="text-xs"
+                            style={{ 
+                              backgroundColor: config?.color, 
+                              color: config?.foreground 
+                            }}
+                          >
+                            <IconComponent className="w-3 h-3 mr-1" />
+                            {config?.label || stream.sender}
+                          </Badge>
+                          {debateLabel && (
+                            <Badge variant="outline" className="text-xs">{debateLabel}</Badge>
+                          )}
+                          {(stream.status === "pending" || stream.status === "streaming") && (
+                            <Loader2 className="w-3 h-3 animate-spin text-muted-foreground" />
+                          )}
+                          {stream.context && (
+                            <ContextUsage report={stream.context} testId={`context-usage-${stream.key}`} />
+                          )}
+                        </div>
+                        {stream.status === "error" ? (
+                          <div className="text-sm text-destructive">
+                            ⚠️ {stream.error}
+                          </div>
+                        ) : stream.content ? (
+                          <div className="whitespace-pre-wrap text-sm">
+                            {stream.content}
+                          </div>
+                        ) : (
+                          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                            <span>Thinking...</span>
+                          </div>
+                        )}
                       </div>
-                    </div>
-                  </Card>
+                    </Card>
+                  </div>
                 );
               })}
             </div>
@@ -622,25 +734,72 @@ export function DiscussionInterface({
       </div>
 
       {/* Input */}
-      <div className="border-t bg-card p-4">
+      <div className="border-t bg-card p-4 space-y-2">
+        {/* Debate options - apply to the next message only */}
+        <div className="flex items-center gap-2 flex-wrap">
+          <Button
+            type="button"
+            variant={debate ? "default" : "outline"}
+            size="sm"
+            onClick={() => setDebate(debate ? null : { rounds: 2, judge: providers[0]?.id || "" })}
+            disabled={messageStream.isStreaming || providers.length === 0}
+            data-testid="toggle-debate"
+          >
+            <Swords className="w-3 h-3 mr-1" />
+            Debate
+          </Button>
+          {debate && (
+            <>
+              <Select
+                value={String(debate.rounds)}
+                onValueChange={(value) => setDebate({ ...debate, rounds: parseInt(value) })}
+              >
+                <SelectTrigger className="w-28 h-8" data-testid="select-debate-rounds">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[1, 2, 3, 4, 5].map(rounds => (
+                    <SelectItem key={rounds} value={String(rounds)}>
+                      {rounds} {rounds === 1 ? "round" : "rounds"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-sm text-muted-foreground">Judge:</span>
+              <Select
+                value={debate.judge}
+                onValueChange={(value) => setDebate({ ...debate, judge: value })}
+              >
+                <SelectTrigger className="w-36 h-8" data-testid="select-debate-judge">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {providers.map(provider => (
+                    <SelectItem key={provider.id} value={provider.id}>{provider.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </>
+          )}
+        </div>
         <form onSubmit={handleSubmit} className="flex gap-2">
           <Textarea
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={handleKeyDown}
-            placeholder="Ask a question to get responses from Claude, GPT-4, and DeepSeek..."
+            placeholder={`Ask a question to get responses from ${providerNames}...`}
             className="flex-1 min-h-[60px] max-h-32 resize-none"
-            disabled={sendMessageMutation.isPending}
+            disabled={messageStream.isStreaming}
             data-testid="textarea-discussion-input"
           />
           <Button
             type="submit"
             size="icon"
-            disabled={!input.trim() || sendMessageMutation.isPending}
+            disabled={!input.trim() || messageStream.isStreaming}
             className="self-end"
             data-testid="button-send-discussion-message"
           >
-            {sendMessageMutation.isPending ? (
+            {messageStream.isStreaming ? (
               <Loader2 className="w-4 h-4 animate-spin" />
             ) : (
               <Send className="w-4 h-4" />
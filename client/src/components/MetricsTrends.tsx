@@ -0,0 +1,223 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent, type ChartConfig } from "@/components/ui/chart";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { LineChart as LineChartIcon } from "lucide-react";
+import type { Discussion, MetricBucket, MetricSeriesType, MetricsSeriesPoint, Project, ProviderInfo } from "@shared/schema";
+
+// Selectable time windows and the bucket size each one is plotted with
+const WINDOWS: Record<string, { label: string; hours: number; bucket: MetricBucket }> = {
+  "1h": { label: "Last hour", hours: 1, bucket: "minute" },
+  "24h": { label: "Last 24 hours", hours: 24, bucket: "hour" },
+  "7d": { label: "Last 7 days", hours: 24 * 7, bucket: "hour" },
+  "30d": { label: "Last 30 days", hours: 24 * 30, bucket: "day" },
+};
+
+const ALL = "all";
+
+const latencyConfig = {
+  p50: { label: "p50 (ms)", color: "hsl(var(--chart-1))" },
+  p95: { label: "p95 (ms)", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+const errorsConfig = {
+  errorRate: { label: "Error rate (%)", color: "hsl(var(--chart-5))" },
+} satisfies ChartConfig;
+
+const callsConfig = {
+  calls: { label: "Calls", color: "hsl(var(--chart-3))" },
+} satisfies ChartConfig;
+
+const tokensConfig = {
+  tokens: { label: "Tokens", color: "hsl(var(--chart-4))" },
+} satisfies ChartConfig;
+
+interface SeriesFilters {
+  bucket: MetricBucket;
+  from: string;
+  provider: string;
+  projectId: string;
+  discussionId: string;
+}
+
+function useSeries(type: MetricSeriesType, filters: SeriesFilters) {
+  const params = new URLSearchParams({ type, bucket: filters.bucket, from: filters.from });
+  if (filters.provider !== ALL) params.set("provider", filters.provider);
+  if (filters.projectId !== ALL) params.set("projectId", filters.projectId);
+  if (filters.discussionId !== ALL) params.set("discussionId", filters.discussionId);
+
+  return useQuery<MetricsSeriesPoint[]>({
+    queryKey: [`/api/metrics/series?${params}`],
+    refetchInterval: 60000,
+  }).data ?? [];
+}
+
+function formatTick(time: string, bucket: MetricBucket) {
+  const date = new Date(time);
+  return bucket === "day"
+    ? date.toLocaleDateString([], { month: "short", day: "numeric" })
+    : date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
+
+function ChartCard({ title, children, testId }: { title: string; children: React.ReactNode; testId: string }) {
+  return (
+    <Card data-testid={testId}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>{children}</CardContent>
+    </Card>
+  );
+}
+
+// Latency, error-rate, call and token charts over a selectable window, filterable by project, discussion and provider
+export function MetricsTrends() {
+  const [windowKey, setWindowKey] = useState("24h");
+  const [provider, setProvider] = useState(ALL);
+  const [projectId, setProjectId] = useState(ALL);
+  const [discussionId, setDiscussionId] = useState(ALL);
+
+  const { data: providers = [] } = useQuery<ProviderInfo[]>({ queryKey: ["/api/providers"] });
+  const { data: projects = [] } = useQuery<Project[]>({ queryKey: ["/api/projects"] });
+  const { data: discussions = [] } = useQuery<Discussion[]>({
+    queryKey: ["/api/projects", projectId, "discussions"],
+    enabled: projectId !== ALL,
+  });
+
+  // Fix the window start when the window changes so the query key stays stable
+  const { bucket, hours } = WINDOWS[windowKey];
+  const from = useMemo(() => new Date(Date.now() - hours * 60 * 60 * 1000).toISOString(), [hours]);
+  const filters: SeriesFilters = { bucket, from, provider, projectId, discussionId };
+
+  const latency = useSeries("latency", filters);
+  const errors = useSeries("errors", filters);
+  const calls = useSeries("calls", filters);
+  const tokens = useSeries("tokens", filters);
+
+  const xAxis = (
+    <XAxis
+      dataKey="time"
+      tickLine={false}
+      axisLine={false}
+      minTickGap={24}
+      tickFormatter={(time: string) => formatTick(time, bucket)}
+    />
+  );
+  const tooltip = (
+    <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => new Date(payload?.[0]?.payload?.time).toLocaleString()} />} />
+  );
+
+  return (
+    <div className="mt-6 space-y-4" data-testid="metrics-trends">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex items-center gap-2 mr-auto">
+          <LineChartIcon className="w-5 h-5" />
+          <h2 className="text-lg font-semibold">Trends</h2>
+        </div>
+        <Select value={windowKey} onValueChange={setWindowKey}>
+          <SelectTrigger className="w-40" data-testid="select-trends-window">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(WINDOWS).map(([key, { label }]) => (
+              <SelectItem key={key} value={key}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={projectId}
+          onValueChange={(value) => {
+            setProjectId(value);
+            setDiscussionId(ALL);
+          }}
+        >
+          <SelectTrigger className="w-44" data-testid="select-trends-project">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All projects</SelectItem>
+            {projects.map(project => (
+              <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={discussionId} onValueChange={setDiscussionId} disabled={projectId === ALL}>
+          <SelectTrigger className="w-44" data-testid="select-trends-discussion">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All discussions</SelectItem>
+            {discussions.map(discussion => (
+              <SelectItem key={discussion.id} value={discussion.id}>{discussion.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={provider} onValueChange={setProvider}>
+          <SelectTrigger className="w-40" data-testid="select-trends-provider">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All providers</SelectItem>
+            {providers.map(p => (
+              <SelectItem key={p.id} value={p.id}>{p.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <ChartCard title="Latency" testId="chart-latency">
+          <ChartContainer config={latencyConfig} className="h-56 w-full">
+            <LineChart data={latency}>
+              <CartesianGrid vertical={false} />
+              {xAxis}
+              <YAxis tickLine={false} axisLine={false} width={48} />
+              {tooltip}
+              <ChartLegend content={<ChartLegendContent />} />
+              <Line dataKey="p50" stroke="var(--color-p50)" dot={false} strokeWidth={2} />
+              <Line dataKey="p95" stroke="var(--color-p95)" dot={false} strokeWidth={2} />
+            </LineChart>
+          </ChartContainer>
+        </ChartCard>
+
+        <ChartCard title="Error Rate" testId="chart-errors">
+          <ChartContainer config={errorsConfig} className="h-56 w-full">
+            <LineChart data={errors}>
+              <CartesianGrid vertical={false} />
+              {xAxis}
+              <YAxis tickLine={false} axisLine={false} width={48} domain={[0, 100]} />
+              {tooltip}
+              <Line dataKey="errorRate" stroke="var(--color-errorRate)" dot={false} strokeWidth={2} />
+            </LineChart>
+          </ChartContainer>
+        </ChartCard>
+
+        <ChartCard title="LLM Calls" testId="chart-calls">
+          <ChartContainer config={callsConfig} className="h-56 w-full">
+            <BarChart data={calls}>
+              <CartesianGrid vertical={false} />
+              {xAxis}
+              <YAxis tickLine={false} axisLine={false} width={48} allowDecimals={false} />
+              {tooltip}
+              <Bar dataKey="calls" fill="var(--color-calls)" radius={2} />
+            </BarChart>
+          </ChartContainer>
+        </ChartCard>
+
+        <ChartCard title="Tokens" testId="chart-tokens">
+          <ChartContainer config={tokensConfig} className="h-56 w-full">
+            <BarChart data={tokens}>
+              <CartesianGrid vertical={false} />
+              {xAxis}
+              <YAxis tickLine={false} axisLine={false} width={56} />
+              {tooltip}
+              <Bar dataKey="tokens" fill="var(--color-tokens)" radius={2} />
+            </BarChart>
+          </ChartContainer>
+        </ChartCard>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { defaultPhaseTemplates, discussionPhases, type PhaseTemplates } from "@shared/schema";
+
+interface PhaseTemplateFieldsProps {
+  templates: PhaseTemplates;
+  onChange: (templates: PhaseTemplates) => void;
+  inherited?: PhaseTemplates; // Templates a blank field falls back to before the defaults
+  testIdPrefix: string;
+}
+
+// One template per breathing phase; blank fields fall back to the next layer, shown as the placeholder
+export function PhaseTemplateFields({ templates, onChange, inherited, testIdPrefix }: PhaseTemplateFieldsProps) {
+  return (
+    <div className="space-y-3">
+      {discussionPhases.map(phase => (
+        <div key={phase} className="space-y-1">
+          <Label htmlFor={`${testIdPrefix}-${phase}`} className="capitalize">{phase}</Label>
+          <Textarea
+            id={`${testIdPrefix}-${phase}`}
+            value={templates[phase] ?? ""}
+            onChange={(e) => onChange({ ...templates, [phase]: e.target.value })}
+            placeholder={inherited?.[phase]?.trim() || defaultPhaseTemplates[phase]}
+            className="min-h-16 text-sm"
+            data-testid={`textarea-template-${testIdPrefix}-${phase}`}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
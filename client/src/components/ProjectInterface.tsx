@@ -3,10 +3,13 @@ import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
-import { MoreHorizontal, File, MessageSquare, Paperclip, Plus, Settings, Share, Edit3, Copy, Trash2, Cherry, SlidersHorizontal, Split } from "lucide-react";
+import { MoreHorizontal, File, MessageSquare, Paperclip, Plus, Settings, Share, Edit3, Copy, Trash2, Cherry, SlidersHorizontal, Split, Wallet, Wind, Users, Eye } from "lucide-react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import { Project, Discussion, ContextItem } from "@shared/schema";
+import { Project, Discussion, ContextItem, type ProjectWithRole, type BudgetStatus, type ProjectBudget, type PromptTemplates, type UserSettings } from "@shared/schema";
+import { PhaseTemplateFields } from "./PhaseTemplateFields";
+import { ShareDialog } from "./ShareDialog";
+import { WorkspaceMembersDialog } from "./WorkspaceMembersDialog";
 import { useToast } from "@/hooks/use-toast";
 import { 
   DropdownMenu, 
@@ -19,6 +22,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
 interface ProjectInterfaceProps {
   projectId: string;
@@ -38,12 +42,20 @@ export function ProjectInterface({
   const [tempInstructions, setTempInstructions] = useState("");
   const [tempName, setTempName] = useState("");
   const [cloneName, setCloneName] = useState("");
+  const [showBudgetDialog, setShowBudgetDialog] = useState(false);
+  const [budgetLimit, setBudgetLimit] = useState("");
+  const [budgetPeriod, setBudgetPeriod] = useState<ProjectBudget["period"]>("month");
+  const [budgetAction, setBudgetAction] = useState<ProjectBudget["action"]>("warn");
+  const [showTemplatesDialog, setShowTemplatesDialog] = useState(false);
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplates>({});
+  const [showShareDialog, setShowShareDialog] = useState(false);
+  const [showMembersDialog, setShowMembersDialog] = useState(false);
   
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
   // Fetch project data
-  const { data: project, isLoading: isLoadingProject } = useQuery<Project>({
+  const { data: project, isLoading: isLoadingProject } = useQuery<ProjectWithRole>({
     queryKey: ["/api/projects", projectId],
     enabled: !!projectId
   });
@@ -60,12 +72,25 @@ export function ProjectInterface({
     enabled: !!projectId
   });
 
+  // Current spend against the project budget
+  const { data: budgetStatus } = useQuery<BudgetStatus | null>({
+    queryKey: ["/api/projects", projectId, "budget"],
+    enabled: !!projectId && showBudgetDialog
+  });
+
+  // Settings-level phase prompts, shown as placeholders for the project overrides
+  const { data: settings } = useQuery<UserSettings>({
+    queryKey: ["/api/settings"],
+    enabled: showTemplatesDialog
+  });
+
   // Update project mutation
   const updateProjectMutation = useMutation({
     mutationFn: (updates: Partial<Project>) => 
       apiRequest("PATCH", `/api/projects/${projectId}`, updates),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "budget"] });
       toast({
         title: "Project Updated",
         description: "Project has been updated successfully.",
@@ -113,6 +138,32 @@ export function ProjectInterface({
     setTempName("");
   };
 
+  const openBudgetDialog = () => {
+    const budget = project?.budget as ProjectBudget | null;
+    setBudgetLimit(budget ? String(budget.limitUsd) : "");
+    setBudgetPeriod(budget?.period ?? "month");
+    setBudgetAction(budget?.action ?? "warn");
+    setShowBudgetDialog(true);
+  };
+
+  const handleSaveBudget = (remove = false) => {
+    const budget: ProjectBudget | null = remove
+      ? null
+      : { limitUsd: parseFloat(budgetLimit), period: budgetPeriod, action: budgetAction };
+    updateProjectMutation.mutate({ budget });
+    setShowBudgetDialog(false);
+  };
+
+  const openTemplatesDialog = () => {
+    setPromptTemplates(project?.promptTemplates as PromptTemplates || {});
+    setShowTemplatesDialog(true);
+  };
+
+  const handleSaveTemplates = () => {
+    updateProjectMutation.mutate({ promptTemplates });
+    setShowTemplatesDialog(false);
+  };
+
   const handleCloneProject = () => {
     if (cloneName.trim()) {
       cloneProjectMutation.mutate(cloneName.trim());
@@ -142,6 +193,8 @@ export function ProjectInterface({
   }
 
 
+  const canEdit = project.role !== "viewer";
+  const isOwner = project.role === "owner";
   const files = contextItems.filter(item => item.type === "file");
   const links = contextItems.filter(item => item.type === "link");
 
@@ -155,6 +208,12 @@ export function ProjectInterface({
             <h1 className="text-lg font-medium" data-testid="project-name">
               {project.name}
             </h1>
+            {!canEdit && (
+              <Badge variant="secondary" className="gap-1" data-testid="badge-read-only">
+                <Eye className="w-3 h-3" />
+                Read-only
+              </Badge>
+            )}
           </div>
           <div className="flex items-center gap-1">
             <DropdownMenu>
@@ -164,37 +223,60 @@ export function ProjectInterface({
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end">
-                <DropdownMenuItem 
-                  onClick={() => {
-                    setTempName(project.name);
-                    setShowRenameDialog(true);
-                  }}
-                  data-testid="button-rename-project-header"
-                >
-                  <Edit3 className="w-4 h-4 mr-2" />
-                  Rename Project
-                </DropdownMenuItem>
-                <DropdownMenuItem 
-                  onClick={() => {
-                    setCloneName(`${project.name} (Copy)`);
-                    setShowCloneDialog(true);
-                  }}
-                  data-testid="button-clone-project-header"
-                >
-                  <Copy className="w-4 h-4 mr-2" />
-                  Clone Project
-                </DropdownMenuItem>
-                <DropdownMenuSeparator />
+                {canEdit && (
+                  <>
+                    <DropdownMenuItem 
+                      onClick={() => {
+                        setTempName(project.name);
+                        setShowRenameDialog(true);
+                      }}
+                      data-testid="button-rename-project-header"
+                    >
+                      <Edit3 className="w-4 h-4 mr-2" />
+                      Rename Project
+                    </DropdownMenuItem>
+                    <DropdownMenuItem 
+                      onClick={() => {
+                        setCloneName(`${project.name} (Copy)`);
+                        setShowCloneDialog(true);
+                      }}
+                      data-testid="button-clone-project-header"
+                    >
+                      <Copy className="w-4 h-4 mr-2" />
+                      Clone Project
+                    </DropdownMenuItem>
+                    {isOwner && (
+                      <DropdownMenuItem 
+                        onClick={openBudgetDialog}
+                        data-testid="button-project-budget"
+                      >
+                        <Wallet className="w-4 h-4 mr-2" />
+                        Set Budget
+                      </DropdownMenuItem>
+                    )}
+                    <DropdownMenuItem 
+                      onClick={openTemplatesDialog}
+                      data-testid="button-project-templates"
+                    >
+                      <Wind className="w-4 h-4 mr-2" />
+                      Phase Prompts
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem
+                      onClick={() => setShowShareDialog(true)}
+                      data-testid="button-share-project"
+                    >
+                      <Share className="w-4 h-4 mr-2" />
+                      Share Project
+                    </DropdownMenuItem>
+                  </>
+                )}
                 <DropdownMenuItem
-                  onClick={() => {
-                    if (window.confirm(`Share link copied to clipboard!`)) {
-                      navigator.clipboard.writeText(window.location.href);
-                    }
-                  }}
-                  data-testid="button-share-project"
+                  onClick={() => setShowMembersDialog(true)}
+                  data-testid="button-team-access"
                 >
-                  <Share className="w-4 h-4 mr-2" />
-                  Share Project
+                  <Users className="w-4 h-4 mr-2" />
+                  Team Access
                 </DropdownMenuItem>
               </DropdownMenuContent>
             </DropdownMenu>
@@ -236,8 +318,9 @@ export function ProjectInterface({
             </div>
           ) : (
             <Card 
-              className="p-4 cursor-pointer hover-elevate"
+              className={`p-4 ${canEdit ? "cursor-pointer hover-elevate" : ""}`}
               onClick={() => {
+                if (!canEdit) return;
                 setTempInstructions(project.instructions || "");
                 setShowInstructionsEdit(true);
               }}
@@ -423,6 +506,129 @@ export function ProjectInterface({
         </DialogContent>
       </Dialog>
 
+      {/* Budget Dialog */}
+      <Dialog open={showBudgetDialog} onOpenChange={setShowBudgetDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Project Budget</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            {budgetStatus && (
+              <p className="text-sm text-muted-foreground" data-testid="text-budget-spent">
+                ${budgetStatus.spentUsd.toFixed(2)} spent of ${budgetStatus.limitUsd.toFixed(2)}
+                {budgetStatus.period === "total" ? " in total" : ` this ${budgetStatus.period}`}
+              </p>
+            )}
+            <div>
+              <Label htmlFor="budget-limit">Limit (USD)</Label>
+              <Input
+                id="budget-limit"
+                type="number"
+                min="0"
+                step="0.5"
+                value={budgetLimit}
+                onChange={(e) => setBudgetLimit(e.target.value)}
+                placeholder="10"
+                data-testid="input-budget-limit"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Period</Label>
+                <Select value={budgetPeriod} onValueChange={(value) => setBudgetPeriod(value as ProjectBudget["period"])}>
+                  <SelectTrigger data-testid="select-budget-period">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="day">Per day</SelectItem>
+                    <SelectItem value="month">Per month</SelectItem>
+                    <SelectItem value="total">Total</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>When exceeded</Label>
+                <Select value={budgetAction} onValueChange={(value) => setBudgetAction(value as ProjectBudget["action"])}>
+                  <SelectTrigger data-testid="select-budget-action">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="warn">Warn</SelectItem>
+                    <SelectItem value="block">Block new messages</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              {!!project.budget && (
+                <Button 
+                  variant="outline" 
+                  onClick={() => handleSaveBudget(true)}
+                  data-testid="button-remove-budget"
+                >
+                  Remove Budget
+                </Button>
+              )}
+              <Button 
+                onClick={() => handleSaveBudget()}
+                disabled={updateProjectMutation.isPending || !(parseFloat(budgetLimit) > 0)}
+                data-testid="button-save-budget"
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Phase Prompts Dialog */}
+      <Dialog open={showTemplatesDialog} onOpenChange={setShowTemplatesDialog}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Phase Prompts</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Override the phase prompts from Settings for this project. <code>{"{role}"}</code> is replaced with each model's role; blank fields use Settings.
+            </p>
+            <PhaseTemplateFields
+              templates={promptTemplates}
+              onChange={(templates) => setPromptTemplates(prev => ({ ...templates, providers: prev.providers }))}
+              inherited={settings?.promptTemplates as PromptTemplates | undefined}
+              testIdPrefix="project"
+            />
+            <div className="flex justify-end gap-2">
+              <Button 
+                variant="outline" 
+                onClick={() => setShowTemplatesDialog(false)}
+                data-testid="button-cancel-templates"
+              >
+                Cancel
+              </Button>
+              <Button 
+                onClick={handleSaveTemplates}
+                disabled={updateProjectMutation.isPending}
+                data-testid="button-save-templates"
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <ShareDialog
+        open={showShareDialog}
+        onOpenChange={setShowShareDialog}
+        projectId={project.id}
+      />
+
+      <WorkspaceMembersDialog
+        open={showMembersDialog}
+        onOpenChange={setShowMembersDialog}
+        project={project}
+      />
+
       {/* Clone Dialog */}
       <Dialog open={showCloneDialog} onOpenChange={setShowCloneDialog}>
         <DialogContent>
@@ -32,6 +32,7 @@ import { useToast } from "@/hooks/use-toast";
 import { type Project, type Discussion } from "@shared/schema";
 import { CreateProjectDialog } from "./CreateProjectDialog";
 import { CreateDiscussionDialog } from "./CreateDiscussionDialog";
+import { ShareDialog } from "./ShareDialog";
 
 interface ProjectSidebarProps {
   selectedProjectId: string | null;
@@ -54,6 +55,7 @@ export function ProjectSidebar({
   const [renameProjectId, setRenameProjectId] = useState<string | null>(null);
   const [renameDiscussionId, setRenameDiscussionId] = useState<string | null>(null);
   const [tempName, setTempName] = useState("");
+  const [shareDiscussion, setShareDiscussion] = useState<Discussion | null>(null);
   
   const queryClient = useQueryClient();
   const { toast } = useToast();
@@ -407,12 +409,7 @@ export function ProjectSidebar({
                                     <DropdownMenuItem
                                       onClick={(e) => {
                                         e.stopPropagation();
-                                        const url = window.location.href;
-                                        navigator.clipboard.writeText(url);
-                                        toast({
-                                          title: "Link Copied",
-                                          description: "Discussion link copied to clipboard.",
-                                        });
+                                        setShareDiscussion(discussion);
                                       }}
                                       data-testid={`button-share-discussion-${discussion.id}`}
                                     >
@@ -470,6 +467,15 @@ export function ProjectSidebar({
         onDiscussionCreated={handleDiscussionCreated}
       />
 
+      {shareDiscussion && (
+        <ShareDialog
+          open={!!shareDiscussion}
+          onOpenChange={(open) => !open && setShareDiscussion(null)}
+          projectId={shareDiscussion.projectId}
+          discussionId={shareDiscussion.id}
+        />
+      )}
+
       {/* Rename Project Dialog */}
       <Dialog open={showRenameProjectDialog} onOpenChange={setShowRenameProjectDialog}>
         <DialogContent>
@@ -0,0 +1,115 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Discussion, ProviderInfo, ResponseMode, ResponseModeConfig } from "@shared/schema";
+
+interface ResponseModeControlsProps {
+  discussion: Discussion;
+  providers: ProviderInfo[];
+}
+
+// Per-discussion response mode: parallel answers, or a sequential relay with a configurable order
+export function ResponseModeControls({ discussion, providers }: ResponseModeControlsProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const config = (discussion.responseMode || {}) as Partial<ResponseModeConfig>;
+  const mode: ResponseMode = config.mode || "parallel";
+  const incremental = config.incremental ?? true;
+
+  // Providers in relay order; unlisted providers keep their registry order at the end
+  const order = config.order || [];
+  const rank = (id: string) => (order.includes(id) ? order.indexOf(id) : order.length);
+  const orderedProviders = [...providers].sort((a, b) => rank(a.id) - rank(b.id));
+
+  const updateMode = useMutation({
+    mutationFn: (updates: Partial<ResponseModeConfig>) =>
+      apiRequest("PATCH", `/api/discussions/${discussion.id}`, {
+        responseMode: { ...config, order, incremental, ...updates }
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/discussions", discussion.id] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update response mode",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const moveProvider = (index: number, offset: number) => {
+    const ids = orderedProviders.map(p => p.id);
+    const target = index + offset;
+    if (target < 0 || target >= ids.length) return;
+
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    updateMode.mutate({ order: ids });
+  };
+
+  return (
+    <div className="flex items-center gap-3 flex-wrap" data-testid="response-mode-controls">
+      <span className="text-sm font-medium text-muted-foreground">Mode:</span>
+      <Select value={mode} onValueChange={(value) => updateMode.mutate({ mode: value as ResponseMode })}>
+        <SelectTrigger className="w-36 h-8" data-testid="select-response-mode">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="parallel">Parallel</SelectItem>
+          <SelectItem value="sequential">Sequential relay</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {mode === "sequential" && (
+        <>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="relay-incremental"
+              checked={incremental}
+              onCheckedChange={(checked) => updateMode.mutate({ incremental: checked })}
+              data-testid="switch-relay-incremental"
+            />
+            <Label htmlFor="relay-incremental" className="text-sm">Show answers as they arrive</Label>
+          </div>
+
+          <div className="flex items-center gap-1" data-testid="relay-order">
+            {orderedProviders.map((provider, index) => (
+              <div
+                key={provider.id}
+                className="flex items-center rounded-md border text-xs"
+                style={{ borderColor: provider.color }}
+              >
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  disabled={index === 0 || updateMode.isPending}
+                  onClick={() => moveProvider(index, -1)}
+                  data-testid={`button-relay-earlier-${provider.sender}`}
+                >
+                  <ChevronLeft className="w-3 h-3" />
+                </Button>
+                <span className="px-1">{index + 1}. {provider.label}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  disabled={index === orderedProviders.length - 1 || updateMode.isPending}
+                  onClick={() => moveProvider(index, 1)}
+                  data-testid={`button-relay-later-${provider.sender}`}
+                >
+                  <ChevronRight className="w-3 h-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
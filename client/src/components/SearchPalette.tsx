@@ -0,0 +1,149 @@
+import { Fragment, useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { FileText, Loader2, MessageSquare, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import type { SearchResult, SearchResultType } from "@shared/schema";
+
+interface SearchPaletteProps {
+  onSelect: (result: SearchResult) => void;
+}
+
+const GROUPS: { type: SearchResultType; heading: string }[] = [
+  { type: "message", heading: "Messages" },
+  { type: "discussion", heading: "Discussions" },
+  { type: "context", heading: "Context" },
+];
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Bold the query terms inside a snippet
+function Highlight({ text, terms }: { text: string; terms: string[] }) {
+  if (terms.length === 0) return <>{text}</>;
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join("|")})`, "gi");
+
+  return (
+    <>
+      {text.split(pattern).map((part, index) =>
+        index % 2 === 1 ? <mark key={index} className="bg-primary/20 text-foreground rounded-sm">{part}</mark> : <Fragment key={index}>{part}</Fragment>
+      )}
+    </>
+  );
+}
+
+// Command palette (Ctrl/Cmd+K) over GET /api/search
+export function SearchPalette({ onSelect }: SearchPaletteProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen(prev => !prev);
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), 250);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const { data: results = [], isFetching } = useQuery<SearchResult[]>({
+    queryKey: [`/api/search?${new URLSearchParams({ q: debouncedQuery })}`],
+    enabled: open && debouncedQuery.length >= 2,
+    staleTime: 30000,
+  });
+
+  const terms = debouncedQuery.split(/\s+/).filter(term => term.length > 1);
+
+  const handleSelect = (result: SearchResult) => {
+    setOpen(false);
+    setQuery("");
+    onSelect(result);
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        className="gap-2 text-muted-foreground"
+        onClick={() => setOpen(true)}
+        data-testid="button-open-search"
+      >
+        <Search className="w-4 h-4" />
+        <span className="hidden md:inline">Search</span>
+        <kbd className="hidden md:inline text-xs border rounded px-1">⌘K</kbd>
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="overflow-hidden p-0 max-w-2xl">
+          <DialogTitle className="sr-only">Search</DialogTitle>
+          {/* Results are ranked by the server, so cmdk's own filtering is off */}
+          <Command shouldFilter={false} className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-2">
+            <CommandInput
+              value={query}
+              onValueChange={setQuery}
+              placeholder="Search messages, discussions and context..."
+              data-testid="input-search"
+            />
+            <CommandList className="max-h-[60vh]">
+              {debouncedQuery.length >= 2 && !isFetching && (
+                <CommandEmpty>No results for "{debouncedQuery}".</CommandEmpty>
+              )}
+              {isFetching && results.length === 0 && (
+                <div className="flex items-center justify-center gap-2 py-6 text-sm text-muted-foreground">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Searching...
+                </div>
+              )}
+              {GROUPS.map(({ type, heading }) => {
+                const hits = results.filter(result => result.type === type);
+                if (hits.length === 0) return null;
+
+                return (
+                  <CommandGroup key={type} heading={heading}>
+                    {hits.map(result => (
+                      <CommandItem
+                        key={`${result.type}-${result.id}`}
+                        value={`${result.type}-${result.id}`}
+                        onSelect={() => handleSelect(result)}
+                        className="flex items-start gap-3"
+                        data-testid={`search-result-${result.type}-${result.id}`}
+                      >
+                        {type === "context"
+                          ? <FileText className="w-4 h-4 mt-0.5 shrink-0" />
+                          : <MessageSquare className="w-4 h-4 mt-0.5 shrink-0" />}
+                        <div className="min-w-0 flex-1 space-y-1">
+                          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                            <span className="font-medium text-foreground truncate">{result.title}</span>
+                            {result.projectName && <span className="truncate">· {result.projectName}</span>}
+                            {result.sender && <span className="capitalize">· {result.sender === "user" ? "You" : result.sender}</span>}
+                            {result.match !== "text" && <span className="ml-auto shrink-0">{result.match === "both" ? "text + semantic" : "semantic"}</span>}
+                          </div>
+                          {type !== "discussion" && (
+                            <div className="text-sm line-clamp-2">
+                              <Highlight text={result.snippet} terms={terms} />
+                            </div>
+                          )}
+                        </div>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                );
+              })}
+            </CommandList>
+          </Command>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -14,7 +14,9 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import type { UserSettings, ApiConfig, Preferences, CompanionConfig, GlobalContext } from "@shared/schema";
+import { useProviders } from "@/hooks/use-providers";
+import { PhaseTemplateFields } from "./PhaseTemplateFields";
+import type { UserSettings, ApiConfig, Preferences, CompanionConfig, PatternScope, PatternLabelSource, GlobalContext, CustomProviderConfig, EmbeddingConfig, PromptTemplates, PhaseTemplates } from "@shared/schema";
 
 interface ApiKeyTestResult {
   provider: string;
@@ -27,6 +29,8 @@ export function Settings() {
   const [apiKeys, setApiKeys] = useState<Record<string, any>>({});
   const [preferences, setPreferences] = useState<Preferences>();
   const [companionConfig, setCompanionConfig] = useState<CompanionConfig>();
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplates>({});
+  const [templateProvider, setTemplateProvider] = useState("all");
   const [globalContextItems, setGlobalContextItems] = useState<GlobalContext[]>([]);
   const [testResults, setTestResults] = useState<Record<string, ApiKeyTestResult>>({});
   const [testingKeys, setTestingKeys] = useState<Record<string, boolean>>({});
@@ -36,6 +40,7 @@ export function Settings() {
   
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { providers } = useProviders();
 
   // Fetch current settings
   const { data: settings, isLoading } = useQuery<UserSettings>({
@@ -56,14 +61,21 @@ export function Settings() {
         sequential: false,
         primaryLLM: "openai",
         maxTokens: 1000,
-        temperature: 0.7
+        temperature: 0.7,
+        historyMessages: 20,
+        historyTokens: 4000
       });
       setCompanionConfig(settings.companionConfig as CompanionConfig || {
         enabled: false,
         autoSuggest: false,
         monitoringLevel: "active",
-        personality: "You are a helpful AI assistant that monitors conversations and suggests improvements."
+        personality: "You are a helpful AI assistant that monitors conversations and suggests improvements.",
+        patternScope: "discussion",
+        patternThreshold: 0.8,
+        minPatternMatches: 2,
+        patternLabels: "llm"
       });
+      setPromptTemplates(settings.promptTemplates as PromptTemplates || {});
       // Initialize global instructions from global context
       const instructionItems = (globalContext || []).filter(item => item.type === 'instruction');
       if (instructionItems.length > 0) {
@@ -100,6 +112,8 @@ export function Settings() {
         description: "Your settings have been saved successfully."
       });
       queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      // Custom endpoints are registered server-side on save
+      queryClient.invalidateQueries({ queryKey: ["/api/providers"] });
     },
     onError: () => {
       toast({
@@ -124,8 +138,8 @@ export function Settings() {
     onSuccess: (result: ApiKeyTestResult) => {
       setTestResults(prev => ({ ...prev, [result.provider]: result }));
       
-      // Map backend provider names back to frontend names for state management
-      const frontendProvider = result.provider === "claude" ? "anthropic" : result.provider;
+      // Map backend provider ids back to settings keys for state management
+      const frontendProvider = providers.find(p => p.id === result.provider)?.settingsKey || result.provider;
       setTestingKeys(prev => ({ ...prev, [frontendProvider]: false }));
       
       if (result.success) {
@@ -150,6 +164,74 @@ export function Settings() {
     }));
   };
 
+  const customProviders: CustomProviderConfig[] = apiKeys.custom || [];
+
+  const embeddingConfig: Partial<EmbeddingConfig> = apiKeys.embeddings || {};
+
+  // Blank fields are dropped so optional values (e.g. the base URL) still validate
+  const handleEmbeddingChange = (field: keyof EmbeddingConfig, value: string) => {
+    setApiKeys(prev => ({
+      ...prev,
+      embeddings: { ...prev.embeddings, [field]: value || undefined }
+    }));
+  };
+
+  const setCustomProviders = (custom: CustomProviderConfig[]) => {
+    setApiKeys(prev => ({ ...prev, custom }));
+  };
+
+  const handleAddCustomProvider = () => {
+    setCustomProviders([
+      ...customProviders,
+      { id: "", name: "", baseUrl: "", model: "", headers: {}, color: "hsl(160, 60%, 40%)", contextWindow: 8192 }
+    ]);
+  };
+
+  const handleCustomProviderChange = (index: number, field: keyof CustomProviderConfig, value: any) => {
+    setCustomProviders(customProviders.map((config, i) => 
+      i === index ? { ...config, [field]: value } : config
+    ));
+  };
+
+  // Blank prices mean the endpoint is free (e.g. a local server)
+  const handleCustomPricingChange = (index: number, side: "input" | "output", value: string) => {
+    const current = customProviders[index].pricing || { input: 0, output: 0 };
+    const pricing = { ...current, [side]: value === "" ? 0 : parseFloat(value) };
+    handleCustomProviderChange(index, "pricing", pricing.input || pricing.output ? pricing : undefined);
+  };
+
+  const handleCustomHeadersChange = (index: number, value: string) => {
+    try {
+      handleCustomProviderChange(index, "headers", value.trim() ? JSON.parse(value) : {});
+    } catch {
+      toast({
+        title: "Invalid headers",
+        description: "Extra headers must be a JSON object, e.g. {\"X-Org\": \"team\"}.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleRemoveCustomProvider = (index: number) => {
+    setCustomProviders(customProviders.filter((_, i) => i !== index));
+  };
+
+  // Custom endpoints are tested as saved on the server; the key is optional
+  const handleTestCustomProvider = (config: CustomProviderConfig) => {
+    const settingsKey = `custom-${config.id}`;
+    if (!providers.some(p => p.id === settingsKey)) {
+      toast({
+        title: "Save first",
+        description: `Save settings to register ${config.name || "this endpoint"} before testing it.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setTestingKeys(prev => ({ ...prev, [settingsKey]: true }));
+    testApiKeyMutation.mutate({ provider: settingsKey, apiKey: config.key || "" });
+  };
+
   const handleTestApiKey = async (provider: string) => {
     const apiKey = apiKeys[provider]?.key;
     if (!apiKey) {
@@ -162,8 +244,8 @@ export function Settings() {
     }
 
     setTestingKeys(prev => ({ ...prev, [provider]: true }));
-    // Map frontend provider names to backend provider names
-    const backendProvider = provider === "anthropic" ? "claude" : provider;
+    // Map settings keys to backend provider ids
+    const backendProvider = providers.find(p => p.settingsKey === provider)?.id || provider;
     testApiKeyMutation.mutate({ provider: backendProvider, apiKey });
   };
 
@@ -213,10 +295,22 @@ export function Settings() {
     updateSettingsMutation.mutate({
       apiKeys,
       preferences,
-      companionConfig
+      companionConfig,
+      promptTemplates
     });
   };
 
+  // Templates shown in the Phase Prompts card: the shared set or one provider's overrides
+  const editedTemplates: PhaseTemplates = templateProvider === "all"
+    ? promptTemplates
+    : promptTemplates.providers?.[templateProvider] || {};
+
+  const handleTemplatesChange = (templates: PhaseTemplates) => {
+    setPromptTemplates(prev => templateProvider === "all"
+      ? { ...templates, providers: prev.providers }
+      : { ...prev, providers: { ...prev.providers, [templateProvider]: templates } });
+  };
+
   const handleAddUrl = () => {
     if (!newUrl.trim()) return;
     
@@ -272,11 +366,11 @@ export function Settings() {
   };
 
   const renderConnectionStatus = (provider: string) => {
-    // Map frontend provider names to backend provider names for checking results
-    const backendProvider = provider === "anthropic" ? "claude" : provider;
+    // Map settings keys to backend provider ids for checking results
+    const backendProvider = providers.find(p => p.settingsKey === provider)?.id || provider;
     const result = testResults[backendProvider];
     const isTesting = testingKeys[provider];
-    const hasKey = apiKeys[provider]?.key;
+    const hasKey = apiKeys[provider]?.key || providers.find(p => p.settingsKey === provider)?.custom;
     
     if (isTesting) {
       return <Badge variant="secondary">Testing...</Badge>;
@@ -344,167 +438,303 @@ export function Settings() {
                 API Configuration
               </CardTitle>
               <CardDescription>
-                Configure your LLM provider API keys. Keys are stored securely and persist across sessions. Password fields may appear empty for security, but "Configured" badges show when keys are saved.
+                Configure your LLM provider API keys. Keys are encrypted on the server and never sent back - saved keys show masked, so leave them as they are to keep them or type over them to replace them.
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
-              {/* OpenAI */}
-              <div className="space-y-2">
-                <div className="flex items-center justify-between">
-                  <Label htmlFor="openai-key" className="font-medium">OpenAI API Key</Label>
-                  {renderConnectionStatus("openai")}
-                </div>
-                <div className="flex gap-2">
-                  <Input
-                    id="openai-key"
-                    type="password"
-                    placeholder="sk-..."
-                    value={apiKeys.openai?.key || ""}
-                    onChange={(e) => handleApiKeyChange("openai", "key", e.target.value)}
-                    data-testid="input-openai-key"
-                  />
-                  <Select 
-                    value={apiKeys.openai?.model || "gpt-4-turbo"} 
-                    onValueChange={(value) => handleApiKeyChange("openai", "model", value)}
-                  >
-                    <SelectTrigger className="w-48" data-testid="select-openai-model">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="gpt-4">GPT-4</SelectItem>
-                      <SelectItem value="gpt-4-turbo">GPT-4 Turbo</SelectItem>
-                      <SelectItem value="gpt-3.5-turbo">GPT-3.5 Turbo</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  <Button
-                    variant="outline"
-                    size="icon"
-                    onClick={() => handleTestApiKey("openai")}
-                    disabled={testingKeys.openai}
-                    data-testid="button-test-openai"
-                  >
-                    <TestTube className="w-4 h-4" />
-                  </Button>
-                </div>
-              </div>
+              {providers.filter(provider => !provider.custom).map((provider, index) => {
+                const key = provider.settingsKey;
 
-              <Separator />
+                return (
+                  <div key={provider.id} className="space-y-6">
+                    {index > 0 && <Separator />}
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor={`${key}-key`} className="font-medium">{provider.vendor} API Key</Label>
+                        {renderConnectionStatus(key)}
+                      </div>
+                      <div className="flex gap-2">
+                        <Input
+                          id={`${key}-key`}
+                          type="password"
+                          placeholder={provider.keyPlaceholder}
+                          value={apiKeys[key]?.key || ""}
+                          onChange={(e) => handleApiKeyChange(key, "key", e.target.value)}
+                          onFocus={(e) => e.target.select()}
+                          data-testid={`input-${key}-key`}
+                        />
+                        {provider.models.length > 0 && (
+                          <Select 
+                            value={apiKeys[key]?.model || provider.defaultModel} 
+                            onValueChange={(value) => handleApiKeyChange(key, "model", value)}
+                          >
+                            <SelectTrigger className="w-48" data-testid={`select-${key}-model`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {provider.models.map((model) => (
+                                <SelectItem key={model.value} value={model.value}>{model.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                        {provider.defaultEndpoint && (
+                          <Input
+                            placeholder={provider.defaultEndpoint}
+                            value={apiKeys[key]?.endpoint || provider.defaultEndpoint}
+                            onChange={(e) => handleApiKeyChange(key, "endpoint", e.target.value)}
+                            className="w-48"
+                            data-testid={`input-${key}-endpoint`}
+                          />
+                        )}
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          onClick={() => handleTestApiKey(key)}
+                          disabled={testingKeys[key]}
+                          data-testid={`button-test-${key}`}
+                        >
+                          <TestTube className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
 
-              {/* Claude/Anthropic */}
-              <div className="space-y-2">
-                <div className="flex items-center justify-between">
-                  <Label htmlFor="anthropic-key" className="font-medium">Claude API Key</Label>
-                  {renderConnectionStatus("anthropic")}
-                </div>
-                <div className="flex gap-2">
-                  <Input
-                    id="anthropic-key"
-                    type="password"
-                    placeholder="sk-ant-..."
-                    value={apiKeys.anthropic?.key || ""}
-                    onChange={(e) => handleApiKeyChange("anthropic", "key", e.target.value)}
-                    data-testid="input-anthropic-key"
-                  />
-                  <Select 
-                    value={apiKeys.anthropic?.model || "claude-3-sonnet"} 
-                    onValueChange={(value) => handleApiKeyChange("anthropic", "model", value)}
-                  >
-                    <SelectTrigger className="w-48" data-testid="select-anthropic-model">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="claude-3-opus">Claude 3 Opus</SelectItem>
-                      <SelectItem value="claude-3-sonnet">Claude 3 Sonnet</SelectItem>
-                      <SelectItem value="claude-3-haiku">Claude 3 Haiku</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  <Button
-                    variant="outline"
-                    size="icon"
-                    onClick={() => handleTestApiKey("anthropic")}
-                    disabled={testingKeys.anthropic}
-                    data-testid="button-test-anthropic"
-                  >
-                    <TestTube className="w-4 h-4" />
-                  </Button>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <LinkIcon className="w-5 h-5" />
+                Custom Providers
+              </CardTitle>
+              <CardDescription>
+                Add any OpenAI-compatible endpoint (vLLM, llama.cpp, Ollama, OpenRouter, ...). Each one joins the discussion alongside the built-in models once saved. The API key is optional for local servers.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {customProviders.length === 0 && (
+                <p className="text-sm text-muted-foreground">No custom providers configured.</p>
+              )}
+              {customProviders.map((config, index) => (
+                <div key={index} className="space-y-4" data-testid={`custom-provider-${index}`}>
+                  {index > 0 && <Separator />}
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <span className="w-3 h-3 rounded-full" style={{ backgroundColor: config.color }} />
+                      <span className="font-medium">{config.name || "New provider"}</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {config.id && renderConnectionStatus(`custom-${config.id}`)}
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => handleTestCustomProvider(config)}
+                        disabled={!config.id || testingKeys[`custom-${config.id}`]}
+                        data-testid={`button-test-custom-${index}`}
+                      >
+                        <TestTube className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleRemoveCustomProvider(index)}
+                        data-testid={`button-remove-custom-${index}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor={`custom-${index}-name`}>Name</Label>
+                      <Input
+                        id={`custom-${index}-name`}
+                        placeholder="Local Llama"
+                        value={config.name}
+                        onChange={(e) => handleCustomProviderChange(index, "name", e.target.value)}
+                        data-testid={`input-custom-${index}-name`}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`custom-${index}-id`}>ID</Label>
+                      <Input
+                        id={`custom-${index}-id`}
+                        placeholder="local-llama"
+                        value={config.id}
+                        onChange={(e) => handleCustomProviderChange(index, "id", e.target.value.toLowerCase().replace(/[^a-z0-9-]/g, "-"))}
+                        data-testid={`input-custom-${index}-id`}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`custom-${index}-url`}>Base URL</Label>
+                      <Input
+                        id={`custom-${index}-url`}
+                        placeholder="http://localhost:8000/v1"
+                        value={config.baseUrl}
+                        onChange={(e) => handleCustomProviderChange(index, "baseUrl", e.target.value)}
+                        data-testid={`input-custom-${index}-url`}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`custom-${index}-model`}>Model</Label>
+                      <Input
+                        id={`custom-${index}-model`}
+                        placeholder="llama-3-8b-instruct"
+                        value={config.model}
+                        onChange={(e) => handleCustomProviderChange(index, "model", e.target.value)}
+                        data-testid={`input-custom-${index}-model`}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`custom-${index}-key`}>API Key</Label>
+                      <Input
+                        id={`custom-${index}-key`}
+                        type="password"
+                        placeholder="optional"
+                        value={config.key || ""}
+                        onChange={(e) => handleCustomProviderChange(index, "key", e.target.value)}
+                        onFocus={(e) => e.target.select()}
+                        data-testid={`input-custom-${index}-key`}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`custom-${index}-color`}>Color</Label>
+                      <Input
+                        id={`custom-${index}-color`}
+                        placeholder="hsl(160, 60%, 40%)"
+                        value={config.color}
+                        onChange={(e) => handleCustomProviderChange(index, "color", e.target.value)}
+                        data-testid={`input-custom-${index}-color`}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`custom-${index}-context`}>Context Window (tokens)</Label>
+                      <Input
+                        id={`custom-${index}-context`}
+                        type="number"
+                        value={config.contextWindow || 8192}
+                        onChange={(e) => handleCustomProviderChange(index, "contextWindow", parseInt(e.target.value))}
+                        min={512}
+                        data-testid={`input-custom-${index}-context`}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`custom-${index}-price-input`}>Price per 1M tokens (input / output USD)</Label>
+                      <div className="flex gap-2">
+                        <Input
+                          id={`custom-${index}-price-input`}
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          placeholder="0"
+                          value={config.pricing?.input || ""}
+                          onChange={(e) => handleCustomPricingChange(index, "input", e.target.value)}
+                          data-testid={`input-custom-${index}-price-input`}
+                        />
+                        <Input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          placeholder="0"
+                          value={config.pricing?.output || ""}
+                          onChange={(e) => handleCustomPricingChange(index, "output", e.target.value)}
+                          data-testid={`input-custom-${index}-price-output`}
+                        />
+                      </div>
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`custom-${index}-headers`}>Extra Headers (JSON)</Label>
+                    <Textarea
+                      id={`custom-${index}-headers`}
+                      placeholder='{"X-Org": "team"}'
+                      defaultValue={Object.keys(config.headers || {}).length ? JSON.stringify(config.headers, null, 2) : ""}
+                      onBlur={(e) => handleCustomHeadersChange(index, e.target.value)}
+                      rows={2}
+                      data-testid={`input-custom-${index}-headers`}
+                    />
+                  </div>
                 </div>
-              </div>
-
-              <Separator />
+              ))}
+              <Button variant="outline" onClick={handleAddCustomProvider} data-testid="button-add-custom-provider">
+                <Plus className="w-4 h-4 mr-2" />
+                Add Custom Provider
+              </Button>
+            </CardContent>
+          </Card>
 
-              {/* DeepSeek */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Brain className="w-5 h-5" />
+                Embeddings
+              </CardTitle>
+              <CardDescription>
+                Semantic memory embeds responses to detect recurring patterns. Automatic uses OpenAI when a key is set and the built-in local embedder otherwise. Stored memories are re-indexed when the embedding model changes.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
               <div className="space-y-2">
-                <div className="flex items-center justify-between">
-                  <Label htmlFor="deepseek-key" className="font-medium">DeepSeek API Key</Label>
-                  {renderConnectionStatus("deepseek")}
-                </div>
-                <div className="flex gap-2">
-                  <Input
-                    id="deepseek-key"
-                    type="password"
-                    placeholder="sk-..."
-                    value={apiKeys.deepseek?.key || ""}
-                    onChange={(e) => handleApiKeyChange("deepseek", "key", e.target.value)}
-                    data-testid="input-deepseek-key"
-                  />
-                  <Input
-                    placeholder="https://api.deepseek.com"
-                    value={apiKeys.deepseek?.endpoint || "https://api.deepseek.com"}
-                    onChange={(e) => handleApiKeyChange("deepseek", "endpoint", e.target.value)}
-                    className="w-48"
-                    data-testid="input-deepseek-endpoint"
-                  />
-                  <Button
-                    variant="outline"
-                    size="icon"
-                    onClick={() => handleTestApiKey("deepseek")}
-                    disabled={testingKeys.deepseek}
-                    data-testid="button-test-deepseek"
-                  >
-                    <TestTube className="w-4 h-4" />
-                  </Button>
-                </div>
+                <Label>Embedding Provider</Label>
+                <Select
+                  value={embeddingConfig.provider || "auto"}
+                  onValueChange={(value) => handleEmbeddingChange("provider", value)}
+                >
+                  <SelectTrigger data-testid="select-embedding-provider">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">Automatic</SelectItem>
+                    <SelectItem value="openai">OpenAI</SelectItem>
+                    <SelectItem value="compatible">OpenAI-compatible endpoint</SelectItem>
+                    <SelectItem value="local">Local (offline)</SelectItem>
+                  </SelectContent>
+                </Select>
+                {embeddingConfig.provider === "local" && (
+                  <p className="text-xs text-muted-foreground">
+                    Local embeddings score lower than neural ones, so a similarity threshold around 0.5 works better.
+                  </p>
+                )}
               </div>
-
-              <Separator />
-
-              {/* Grok */}
-              <div className="space-y-2">
-                <div className="flex items-center justify-between">
-                  <Label htmlFor="grok-key" className="font-medium">Grok API Key</Label>
-                  {renderConnectionStatus("grok")}
-                </div>
-                <div className="flex gap-2">
-                  <Input
-                    id="grok-key"
-                    type="password"
-                    placeholder="xai-..."
-                    value={apiKeys.grok?.key || ""}
-                    onChange={(e) => handleApiKeyChange("grok", "key", e.target.value)}
-                    data-testid="input-grok-key"
-                  />
-                  <Select 
-                    value={apiKeys.grok?.model || "grok-4-latest"} 
-                    onValueChange={(value) => handleApiKeyChange("grok", "model", value)}
-                  >
-                    <SelectTrigger className="w-48" data-testid="select-grok-model">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="grok-4-latest">Grok-4-Latest</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  <Button
-                    variant="outline"
-                    size="icon"
-                    onClick={() => handleTestApiKey("grok")}
-                    disabled={testingKeys.grok}
-                    data-testid="button-test-grok"
-                  >
-                    <TestTube className="w-4 h-4" />
-                  </Button>
+              {embeddingConfig.provider === "compatible" && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="embedding-base-url">Base URL</Label>
+                    <Input
+                      id="embedding-base-url"
+                      placeholder="http://localhost:11434/v1"
+                      value={embeddingConfig.baseUrl || ""}
+                      onChange={(e) => handleEmbeddingChange("baseUrl", e.target.value)}
+                      data-testid="input-embedding-base-url"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="embedding-model">Model</Label>
+                    <Input
+                      id="embedding-model"
+                      placeholder="nomic-embed-text"
+                      value={embeddingConfig.model || ""}
+                      onChange={(e) => handleEmbeddingChange("model", e.target.value)}
+                      data-testid="input-embedding-model"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="embedding-key">API Key</Label>
+                    <Input
+                      id="embedding-key"
+                      type="password"
+                      placeholder="optional"
+                      value={embeddingConfig.key || ""}
+                      onChange={(e) => handleEmbeddingChange("key", e.target.value)}
+                      onFocus={(e) => e.target.select()}
+                      data-testid="input-embedding-key"
+                    />
+                  </div>
                 </div>
-              </div>
+              )}
             </CardContent>
           </Card>
         </TabsContent>
@@ -691,6 +921,82 @@ export function Settings() {
                     </Select>
                   </div>
                   
+                  <div className="space-y-2">
+                    <Label>Pattern Scope</Label>
+                    <Select
+                      value={companionConfig.patternScope ?? "discussion"}
+                      onValueChange={(value: PatternScope) =>
+                        setCompanionConfig(prev => ({ ...prev!, patternScope: value }))
+                      }
+                    >
+                      <SelectTrigger data-testid="select-pattern-scope">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="discussion">Same discussion only</SelectItem>
+                        <SelectItem value="project">Same project</SelectItem>
+                        <SelectItem value="workspace">Same workspace</SelectItem>
+                        <SelectItem value="global">All discussions</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      Which earlier responses a discussion is compared against when detecting recurring patterns.
+                    </p>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="pattern-threshold">Similarity Threshold</Label>
+                      <Input
+                        id="pattern-threshold"
+                        type="number"
+                        min={0}
+                        max={1}
+                        step={0.05}
+                        value={companionConfig.patternThreshold ?? 0.8}
+                        onChange={(e) =>
+                          setCompanionConfig(prev => ({ ...prev!, patternThreshold: parseFloat(e.target.value) || 0 }))
+                        }
+                        data-testid="input-pattern-threshold"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="min-pattern-matches">Minimum Matches</Label>
+                      <Input
+                        id="min-pattern-matches"
+                        type="number"
+                        min={1}
+                        step={1}
+                        value={companionConfig.minPatternMatches ?? 2}
+                        onChange={(e) =>
+                          setCompanionConfig(prev => ({ ...prev!, minPatternMatches: parseInt(e.target.value) || 1 }))
+                        }
+                        data-testid="input-min-pattern-matches"
+                      />
+                    </div>
+                  </div>
+                  
+                  <div className="space-y-2">
+                    <Label>Pattern Labels</Label>
+                    <Select
+                      value={companionConfig.patternLabels ?? "llm"}
+                      onValueChange={(value: PatternLabelSource) =>
+                        setCompanionConfig(prev => ({ ...prev!, patternLabels: value }))
+                      }
+                    >
+                      <SelectTrigger data-testid="select-pattern-labels">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="llm">Named by your primary LLM</SelectItem>
+                        <SelectItem value="local">Local keyphrases (no API calls)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      How clusters of similar responses are named. The LLM option falls back to keyphrases when no provider is available.
+                    </p>
+                  </div>
+                  
                   <div className="space-y-2">
                     <Label htmlFor="companion-personality">Companion Personality</Label>
                     <Textarea
@@ -718,7 +1024,7 @@ export function Settings() {
                 Response Preferences
               </CardTitle>
               <CardDescription>
-                Configure how LLMs respond to your messages and manage response quality.
+                Configure how LLMs respond to your messages. Max tokens and temperature apply to every provider call unless a discussion or agent overrides them.
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
@@ -771,11 +1077,11 @@ export function Settings() {
                   </div>
 
                   <div className="space-y-2">
-                    <Label htmlFor="temperature">Temperature ({preferences?.temperature || 0.7})</Label>
+                    <Label htmlFor="temperature">Temperature ({preferences?.temperature ?? 0.7})</Label>
                     <Input
                       id="temperature"
                       type="range"
-                      value={preferences?.temperature || 0.7}
+                      value={preferences?.temperature ?? 0.7}
                       onChange={(e) => 
                         setPreferences(prev => ({ ...prev!, temperature: parseFloat(e.target.value) }))
                       }
@@ -787,7 +1093,75 @@ export function Settings() {
                     />
                   </div>
                 </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="history-messages">History Messages</Label>
+                    <Input
+                      id="history-messages"
+                      type="number"
+                      value={preferences?.historyMessages ?? 20}
+                      onChange={(e) => 
+                        setPreferences(prev => ({ ...prev!, historyMessages: parseInt(e.target.value) }))
+                      }
+                      min={0}
+                      max={100}
+                      data-testid="input-history-messages"
+                    />
+                    <p className="text-xs text-muted-foreground">Earlier discussion messages each model sees</p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="history-tokens">History Token Budget</Label>
+                    <Input
+                      id="history-tokens"
+                      type="number"
+                      value={preferences?.historyTokens ?? 4000}
+                      onChange={(e) => 
+                        setPreferences(prev => ({ ...prev!, historyTokens: parseInt(e.target.value) }))
+                      }
+                      min={0}
+                      step={500}
+                      data-testid="input-history-tokens"
+                    />
+                    <p className="text-xs text-muted-foreground">Older messages are dropped once history exceeds this</p>
+                  </div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Brain className="w-5 h-5" />
+                Phase Prompts
+              </CardTitle>
+              <CardDescription>
+                How each model is instructed in every breathing phase. <code>{"{role}"}</code> is replaced with the model's own role; blank fields use the default. Projects can override these.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label>Applies to</Label>
+                <Select value={templateProvider} onValueChange={setTemplateProvider}>
+                  <SelectTrigger data-testid="select-template-provider">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All providers</SelectItem>
+                    {providers.map(provider => (
+                      <SelectItem key={provider.id} value={provider.id}>{provider.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
+              <PhaseTemplateFields
+                templates={editedTemplates}
+                onChange={handleTemplatesChange}
+                inherited={templateProvider === "all" ? undefined : promptTemplates}
+                testIdPrefix={`settings-${templateProvider}`}
+              />
             </CardContent>
           </Card>
         </TabsContent>
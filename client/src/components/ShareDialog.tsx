@@ -0,0 +1,131 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Copy, Link2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { type ShareLink } from "@shared/schema";
+
+interface ShareDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  discussionId?: string | null; // Share one discussion instead of the whole project
+}
+
+function shareUrl(link: ShareLink): string {
+  return `${window.location.origin}/shared/${link.token}`;
+}
+
+// Read-only share links - anyone signed in to this instance can open them
+export function ShareDialog({ open, onOpenChange, projectId, discussionId = null }: ShareDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const sharesKey = ["/api/projects", projectId, "shares"];
+
+  const { data: shareLinks = [], isLoading } = useQuery<ShareLink[]>({
+    queryKey: sharesKey,
+    enabled: open
+  });
+  const links = shareLinks.filter(link => (link.discussionId ?? null) === discussionId);
+
+  const copyLink = async (link: ShareLink) => {
+    await navigator.clipboard.writeText(shareUrl(link));
+    toast({
+      title: "Link Copied",
+      description: "Share link copied to clipboard.",
+    });
+  };
+
+  const createLinkMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/projects/${projectId}/shares`, { discussionId });
+      return response.json() as Promise<ShareLink>;
+    },
+    onSuccess: (link) => {
+      queryClient.invalidateQueries({ queryKey: sharesKey });
+      copyLink(link);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create share link",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeLinkMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/shares/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: sharesKey });
+      toast({
+        title: "Link Revoked",
+        description: "The share link no longer works.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to revoke share link",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{discussionId ? "Share Discussion" : "Share Project"}</DialogTitle>
+          <DialogDescription>
+            Anyone signed in with a link gets a read-only view of this {discussionId ? "discussion" : "project and its discussions"}.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading links...</p>
+          ) : links.length === 0 ? (
+            <p className="text-sm text-muted-foreground" data-testid="text-no-share-links">No share links yet.</p>
+          ) : (
+            links.map(link => (
+              <div key={link.id} className="flex items-center gap-2 rounded-md border p-2" data-testid={`share-link-${link.id}`}>
+                <Link2 className="w-4 h-4 text-muted-foreground shrink-0" />
+                <span className="flex-1 truncate text-sm font-mono">{shareUrl(link)}</span>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => copyLink(link)} data-testid={`button-copy-share-${link.id}`}>
+                  <Copy className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => revokeLinkMutation.mutate(link.id)}
+                  disabled={revokeLinkMutation.isPending}
+                  data-testid={`button-revoke-share-${link.id}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+        <div className="flex justify-end">
+          <Button
+            onClick={() => createLinkMutation.mutate()}
+            disabled={createLinkMutation.isPending}
+            data-testid="button-create-share-link"
+          >
+            <Link2 className="w-4 h-4 mr-2" />
+            Create Link
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
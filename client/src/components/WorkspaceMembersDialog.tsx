@@ -0,0 +1,291 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Copy, Link2, Trash2, UserMinus, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  workspaceRoles,
+  type ProjectWithRole,
+  type Workspace,
+  type WorkspaceInvite,
+  type WorkspaceMemberInfo,
+  type WorkspaceRole,
+} from "@shared/schema";
+
+interface WorkspaceMembersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  project: ProjectWithRole;
+}
+
+const roleLabels: Record<WorkspaceRole, string> = {
+  viewer: "Viewer - read only",
+  editor: "Editor - discuss and edit",
+  owner: "Owner - manage members",
+};
+
+function inviteUrl(invite: WorkspaceInvite): string {
+  return `${window.location.origin}/invite/${invite.token}`;
+}
+
+// Team access for a project: the members of its workspace and invitation links to it.
+// Projects outside a workspace get one first so they can be shared.
+export function WorkspaceMembersDialog({ open, onOpenChange, project }: WorkspaceMembersDialogProps) {
+  const [workspaceName, setWorkspaceName] = useState("");
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>("editor");
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const workspaceId = project.workspaceId;
+
+  const { data: members = [] } = useQuery<WorkspaceMemberInfo[]>({
+    queryKey: ["/api/workspaces", workspaceId, "members"],
+    enabled: open && !!workspaceId
+  });
+  const myRole = members.find(member => member.userId === user?.id)?.role;
+  const isOwner = myRole === "owner";
+
+  const { data: invites = [] } = useQuery<WorkspaceInvite[]>({
+    queryKey: ["/api/workspaces", workspaceId, "invites"],
+    enabled: open && !!workspaceId && isOwner
+  });
+
+  const onError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const copyInvite = async (invite: WorkspaceInvite) => {
+    await navigator.clipboard.writeText(inviteUrl(invite));
+    toast({
+      title: "Invite Copied",
+      description: "Invitation link copied to clipboard.",
+    });
+  };
+
+  const createWorkspaceMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest("POST", "/api/workspaces", { name });
+      const workspace = await response.json() as Workspace;
+      await apiRequest("PATCH", `/api/projects/${project.id}`, { workspaceId: workspace.id });
+      return workspace;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", project.id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] });
+      setWorkspaceName("");
+    },
+    onError: onError("Failed to create workspace"),
+  });
+
+  const updateMemberMutation = useMutation({
+    mutationFn: ({ userId, role }: { userId: string; role: WorkspaceRole }) =>
+      apiRequest("PATCH", `/api/workspaces/${workspaceId}/members/${userId}`, { role }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/workspaces", workspaceId, "members"] });
+    },
+    onError: onError("Failed to update member"),
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: (userId: string) => apiRequest("DELETE", `/api/workspaces/${workspaceId}/members/${userId}`),
+    onSuccess: (_, userId) => {
+      if (userId === user?.id) {
+        // Leaving the workspace takes its projects with it
+        queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+        onOpenChange(false);
+      } else {
+        queryClient.invalidateQueries({ queryKey: ["/api/workspaces", workspaceId, "members"] });
+      }
+    },
+    onError: onError("Failed to remove member"),
+  });
+
+  const createInviteMutation = useMutation({
+    mutationFn: async (role: WorkspaceRole) => {
+      const response = await apiRequest("POST", `/api/workspaces/${workspaceId}/invites`, { role });
+      return response.json() as Promise<WorkspaceInvite>;
+    },
+    onSuccess: (invite) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/workspaces", workspaceId, "invites"] });
+      copyInvite(invite);
+    },
+    onError: onError("Failed to create invite"),
+  });
+
+  const revokeInviteMutation = useMutation({
+    mutationFn: (inviteId: string) => apiRequest("DELETE", `/api/workspaces/${workspaceId}/invites/${inviteId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/workspaces", workspaceId, "invites"] });
+    },
+    onError: onError("Failed to revoke invite"),
+  });
+
+  if (!workspaceId) {
+    return (
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Team Access</DialogTitle>
+            <DialogDescription>
+              Projects are shared through workspaces. Create one for this project to invite your team.
+            </DialogDescription>
+          </DialogHeader>
+          {project.role === "owner" ? (
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="workspace-name">Workspace Name</Label>
+                <Input
+                  id="workspace-name"
+                  value={workspaceName}
+                  onChange={(e) => setWorkspaceName(e.target.value)}
+                  placeholder="My team"
+                  data-testid="input-workspace-name"
+                />
+              </div>
+              <div className="flex justify-end">
+                <Button
+                  onClick={() => createWorkspaceMutation.mutate(workspaceName.trim())}
+                  disabled={createWorkspaceMutation.isPending || !workspaceName.trim()}
+                  data-testid="button-create-workspace"
+                >
+                  Create Workspace
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">Only the project owner can do this.</p>
+          )}
+        </DialogContent>
+      </Dialog>
+    );
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Team Access</DialogTitle>
+          <DialogDescription>
+            Members of this workspace can open all of its projects with their role.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium flex items-center gap-2">
+            <Users className="w-4 h-4" />
+            Members
+          </h3>
+          {members.map(member => (
+            <div key={member.userId} className="flex items-center gap-2" data-testid={`member-${member.userId}`}>
+              <span className="flex-1 text-sm truncate">
+                {member.username}
+                {member.userId === user?.id && <span className="text-muted-foreground"> (you)</span>}
+              </span>
+              {member.primaryOwner || !isOwner ? (
+                <Badge variant="secondary" className="capitalize">{member.role}</Badge>
+              ) : (
+                <Select
+                  value={member.role}
+                  onValueChange={(role) => updateMemberMutation.mutate({ userId: member.userId, role: role as WorkspaceRole })}
+                >
+                  <SelectTrigger className="w-28 h-8" data-testid={`select-member-role-${member.userId}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {workspaceRoles.map(role => (
+                      <SelectItem key={role} value={role} className="capitalize">{role}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {!member.primaryOwner && (isOwner || member.userId === user?.id) && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => removeMemberMutation.mutate(member.userId)}
+                  disabled={removeMemberMutation.isPending}
+                  title={member.userId === user?.id ? "Leave workspace" : "Remove member"}
+                  data-testid={`button-remove-member-${member.userId}`}
+                >
+                  <UserMinus className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+        {isOwner && (
+          <div className="space-y-2 border-t pt-4">
+            <h3 className="text-sm font-medium flex items-center gap-2">
+              <Link2 className="w-4 h-4" />
+              Invitation Links
+            </h3>
+            {invites.map(invite => (
+              <div key={invite.id} className="flex items-center gap-2" data-testid={`invite-${invite.id}`}>
+                <Badge variant="outline" className="capitalize">{invite.role}</Badge>
+                <span className="flex-1 text-xs text-muted-foreground truncate">
+                  {invite.expiresAt ? `Expires ${new Date(invite.expiresAt).toLocaleDateString()}` : "Never expires"}
+                </span>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => copyInvite(invite)} data-testid={`button-copy-invite-${invite.id}`}>
+                  <Copy className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => revokeInviteMutation.mutate(invite.id)}
+                  disabled={revokeInviteMutation.isPending}
+                  data-testid={`button-revoke-invite-${invite.id}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex items-center gap-2">
+              <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as WorkspaceRole)}>
+                <SelectTrigger className="flex-1" data-testid="select-invite-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {workspaceRoles.map(role => (
+                    <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={() => createInviteMutation.mutate(inviteRole)}
+                disabled={createInviteMutation.isPending}
+                data-testid="button-create-invite"
+              >
+                Create Invite
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">Invitation links expire after 7 days.</p>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
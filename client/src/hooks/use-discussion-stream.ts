@@ -0,0 +1,162 @@
+import { useState, useCallback, useRef, useEffect } from "react";
+import type { Message, MessageMetadata, DebateRequest, BudgetStatus } from "@shared/schema";
+
+export type StreamStatus = "pending" | "streaming" | "complete" | "error";
+
+export interface ProviderStream extends MessageMetadata {
+  key: string; // Sender, or sender + round for debate turns
+  sender: string;
+  provider?: string;
+  content: string;
+  status: StreamStatus;
+  error?: string;
+}
+
+interface DiscussionStreamOptions {
+  onDone?: () => void | Promise<unknown>;
+  onError?: (error: Error) => void;
+  onBudgetExceeded?: (budget: BudgetStatus) => void;
+}
+
+// Parse a single SSE frame ("event: x\ndata: {...}") into its name and JSON payload
+function parseEvent(frame: string): { event: string; data: any } | null {
+  let event = "message";
+  const dataLines: string[] = [];
+
+  for (const line of frame.split("\n")) {
+    if (line.startsWith("event:")) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith("data:")) {
+      dataLines.push(line.slice(5).trim());
+    }
+  }
+
+  if (dataLines.length === 0) return null;
+  return { event, data: JSON.parse(dataLines.join("\n")) };
+}
+
+// Sends a discussion message through the streaming endpoint and exposes
+// each provider's partial output as it arrives
+export function useDiscussionStream(discussionId: string | null, options: DiscussionStreamOptions = {}) {
+  const [streams, setStreams] = useState<Record<string, ProviderStream>>({});
+  const [pendingMessage, setPendingMessage] = useState<string | null>(null);
+  const [userMessage, setUserMessage] = useState<Message | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  // Abort any in-flight stream when the discussion changes or the component unmounts
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, [discussionId]);
+
+  const updateStream = (data: { key?: string; sender: string }, update: (prev: ProviderStream) => ProviderStream) => {
+    const key = data.key || data.sender;
+    setStreams(prev => ({
+      ...prev,
+      [key]: update(prev[key] || { key, sender: data.sender, content: "", status: "pending" })
+    }));
+  };
+
+  const handleEvent = (event: string, data: any) => {
+    switch (event) {
+      case "user_message":
+        setUserMessage(data);
+        break;
+      case "budget":
+        optionsRef.current.onBudgetExceeded?.(data);
+        break;
+      case "start":
+        updateStream(data, prev => ({
+          ...prev,
+          provider: data.provider,
+          round: data.round,
+          debateRole: data.debateRole,
+          status: "pending"
+        }));
+        break;
+      case "context":
+        updateStream(data, prev => ({ ...prev, context: data.report }));
+        break;
+      case "delta":
+        updateStream(data, prev => ({ ...prev, content: prev.content + data.text, status: "streaming" }));
+        break;
+      case "restart":
+        updateStream(data, prev => ({ ...prev, content: "", status: "pending" }));
+        break;
+      case "complete":
+        updateStream(data, prev => ({ ...prev, content: data.message?.content ?? prev.content, status: "complete" }));
+        break;
+      case "error":
+        if (data.sender) {
+          updateStream(data, prev => ({ ...prev, status: "error", error: data.error }));
+        } else {
+          throw new Error(data.error || "Failed to process message");
+        }
+        break;
+    }
+  };
+
+  const send = useCallback(async (content: string, enabledModels: string[], debate?: DebateRequest) => {
+    if (!discussionId) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setStreams({});
+    setUserMessage(null);
+    setPendingMessage(content);
+    setIsStreaming(true);
+
+    try {
+      const res = await fetch(`/api/discussions/${discussionId}/messages/stream`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Accept": "text/event-stream" },
+        body: JSON.stringify({ content, enabledModels, debate }),
+        credentials: "include",
+        signal: controller.signal,
+      });
+
+      if (!res.ok || !res.body) {
+        const text = (await res.text()) || res.statusText;
+        throw new Error(`${res.status}: ${text}`);
+      }
+
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const frames = buffer.split("\n\n");
+        buffer = frames.pop() || "";
+
+        for (const frame of frames) {
+          const parsed = parseEvent(frame);
+          if (parsed) handleEvent(parsed.event, parsed.data);
+        }
+      }
+
+      await optionsRef.current.onDone?.();
+    } catch (error: any) {
+      if (error.name !== "AbortError") {
+        optionsRef.current.onError?.(error);
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsStreaming(false);
+        setPendingMessage(null);
+        setStreams({});
+        setUserMessage(null);
+      }
+    }
+  }, [discussionId]);
+
+  return { send, streams, pendingMessage, userMessage, isStreaming };
+}
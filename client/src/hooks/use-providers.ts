@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query";
+import { Bot, Brain, Search, Zap, Sparkles, Server, type LucideIcon } from "lucide-react";
+import type { ProviderInfo } from "@shared/schema";
+
+// Icons a provider can reference by name in its metadata
+const PROVIDER_ICONS: Record<string, LucideIcon> = {
+  Bot,
+  Brain,
+  Search,
+  Zap,
+  Sparkles,
+  Server
+};
+
+export function getProviderIcon(name: string | undefined): LucideIcon {
+  return (name && PROVIDER_ICONS[name]) || Bot;
+}
+
+// Registered LLM providers from the server-side registry
+export function useProviders() {
+  const { data: providers = [], ...rest } = useQuery<ProviderInfo[]>({
+    queryKey: ["/api/providers"]
+  });
+
+  return { providers, ...rest };
+}
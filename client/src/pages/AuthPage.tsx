@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Home } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+
+function CredentialsForm({ mode }: { mode: "login" | "register" }) {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const { loginMutation, registerMutation } = useAuth();
+  const mutation = mode === "login" ? loginMutation : registerMutation;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim() || !password) return;
+    mutation.mutate({ username: username.trim(), password });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={`${mode}-username`}>Username</Label>
+        <Input
+          id={`${mode}-username`}
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          autoComplete="username"
+          data-testid={`input-${mode}-username`}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${mode}-password`}>Password</Label>
+        <Input
+          id={`${mode}-password`}
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoComplete={mode === "login" ? "current-password" : "new-password"}
+          data-testid={`input-${mode}-password`}
+        />
+        {mode === "register" && (
+          <p className="text-xs text-muted-foreground">At least 8 characters.</p>
+        )}
+      </div>
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={mutation.isPending || !username.trim() || !password}
+        data-testid={`button-${mode}`}
+      >
+        {mutation.isPending
+          ? (mode === "login" ? "Signing in..." : "Creating account...")
+          : (mode === "login" ? "Sign In" : "Create Account")}
+      </Button>
+    </form>
+  );
+}
+
+export default function AuthPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-muted/20 px-4" data-testid="auth-page">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="text-center">
+          <div className="w-12 h-12 bg-primary/10 rounded-full flex items-center justify-center mx-auto mb-2">
+            <Home className="w-6 h-6 text-primary" />
+          </div>
+          <CardTitle>Grand Central</CardTitle>
+          <CardDescription>Sign in to your collaborative workspace</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="login">
+            <TabsList className="grid w-full grid-cols-2 mb-4">
+              <TabsTrigger value="login" data-testid="tab-login">Sign In</TabsTrigger>
+              <TabsTrigger value="register" data-testid="tab-register">Register</TabsTrigger>
+            </TabsList>
+            <TabsContent value="login">
+              <CredentialsForm mode="login" />
+            </TabsContent>
+            <TabsContent value="register">
+              <CredentialsForm mode="register" />
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation, useParams } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2, Users } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { workspaceRoles, type WorkspaceInvitePreview } from "@shared/schema";
+
+// Accept a workspace invitation link - /invite/:token
+export default function InvitePage() {
+  const { token } = useParams<{ token: string }>();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  const { data: invite, isLoading, error } = useQuery<WorkspaceInvitePreview>({
+    queryKey: ["/api/invites", token]
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `/api/invites/${token}/accept`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] });
+      toast({
+        title: "Joined Workspace",
+        description: `You now have access to ${invite?.workspaceName}.`,
+      });
+      setLocation("/");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to accept invite",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // An invite never lowers a role the user already has
+  const alreadyCovered = !!invite?.currentRole
+    && workspaceRoles.indexOf(invite.currentRole) >= workspaceRoles.indexOf(invite.role);
+
+  return (
+    <div className="flex h-full items-center justify-center px-4" data-testid="invite-page">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="text-center">
+          <div className="w-12 h-12 bg-primary/10 rounded-full flex items-center justify-center mx-auto mb-2">
+            <Users className="w-6 h-6 text-primary" />
+          </div>
+          <CardTitle>{invite ? `Join ${invite.workspaceName}` : "Workspace Invite"}</CardTitle>
+          {invite && (
+            <CardDescription>
+              You are invited as <span className="font-medium">{invite.role}</span>.
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent className="text-center">
+          {isLoading ? (
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground mx-auto" />
+          ) : error || !invite ? (
+            <p className="text-sm text-muted-foreground">This invite is invalid or has been revoked.</p>
+          ) : invite.expired ? (
+            <p className="text-sm text-muted-foreground">This invite has expired. Ask the workspace owner for a new one.</p>
+          ) : alreadyCovered ? (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">You are already a{invite.currentRole === "owner" ? "n" : ""} {invite.currentRole} of this workspace.</p>
+              <Button variant="outline" onClick={() => setLocation("/")} data-testid="button-invite-home">
+                Go to projects
+              </Button>
+            </div>
+          ) : (
+            <Button
+              className="w-full"
+              onClick={() => acceptMutation.mutate()}
+              disabled={acceptMutation.isPending}
+              data-testid="button-accept-invite"
+            >
+              {acceptMutation.isPending ? "Joining..." : "Accept Invite"}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -2,7 +2,27 @@ import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
-import { TrendingUp, TrendingDown, Zap, Brain, Target, Activity, Clock, Users } from "lucide-react";
+import { MetricsTrends } from "@/components/MetricsTrends";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Bar, BarChart, CartesianGrid, XAxis } from "recharts";
+import { TrendingUp, TrendingDown, Zap, Brain, Target, Activity, Clock, Users, DollarSign } from "lucide-react";
+
+interface SpendBreakdown {
+  id: string;
+  label: string;
+  costUsd: number;
+  tokens: number;
+  calls: number;
+}
+
+interface SpendSummary {
+  totalCostUsd: number;
+  totalTokens: number;
+  byProvider: SpendBreakdown[];
+  byProject: SpendBreakdown[];
+  byDiscussion: SpendBreakdown[];
+  daily: { date: string; costUsd: number; tokens: number }[];
+}
 
 interface MetricsDashboard {
   avgResponseTime: number;
@@ -15,6 +35,40 @@ interface MetricsDashboard {
   activeDiscussions: number;
   messagesPerHour: number;
   llmSuccessRate: number;
+  spend: SpendSummary;
+}
+
+const spendChartConfig = {
+  costUsd: { label: "Spend (USD)", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const formatUsd = (value: number) => `$${value < 1 ? value.toFixed(4) : value.toFixed(2)}`;
+
+function SpendList({ title, rows, testId }: { title: string; rows: SpendBreakdown[]; testId: string }) {
+  return (
+    <Card data-testid={testId}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium">{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No spend recorded</p>
+        ) : (
+          rows.slice(0, 8).map(row => (
+            <div key={row.id} className="flex justify-between items-center gap-2">
+              <span className="text-sm truncate">{row.label}</span>
+              <span className="text-sm font-semibold shrink-0">
+                {formatUsd(row.costUsd)}
+                <span className="text-xs text-muted-foreground font-normal ml-2">
+                  {row.tokens.toLocaleString()} tok
+                </span>
+              </span>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
 }
 
 export default function Metrics() {
@@ -235,6 +289,42 @@ export default function Metrics() {
           </CardContent>
         </Card>
       </div>
+
+      {/* LLM Spend */}
+      <Card className="mt-6" data-testid="metric-spend">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <DollarSign className="w-5 h-5" />
+              LLM Spend (30 days)
+            </CardTitle>
+            <div className="text-right">
+              <div className="text-2xl font-bold">{formatUsd(metrics.spend.totalCostUsd)}</div>
+              <div className="text-xs text-muted-foreground">
+                {metrics.spend.totalTokens.toLocaleString()} tokens
+              </div>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={spendChartConfig} className="h-48 w-full">
+            <BarChart data={metrics.spend.daily}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" tickLine={false} axisLine={false} tickFormatter={(date: string) => date.slice(5)} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="costUsd" fill="var(--color-costUsd)" radius={2} />
+            </BarChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+        <SpendList title="By Provider" rows={metrics.spend.byProvider} testId="spend-by-provider" />
+        <SpendList title="By Project" rows={metrics.spend.byProject} testId="spend-by-project" />
+        <SpendList title="By Discussion" rows={metrics.spend.byDiscussion} testId="spend-by-discussion" />
+      </div>
+
+      <MetricsTrends />
     </div>
   );
 }
\ No newline at end of file
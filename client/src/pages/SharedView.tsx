@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Cherry, Eye, File, Loader2, MessageSquare } from "lucide-react";
+import type { SharedDiscussion, SharedView as SharedViewData } from "@shared/schema";
+
+function SharedMessages({ shared }: { shared: SharedDiscussion }) {
+  return (
+    <div className="space-y-3" data-testid="shared-messages">
+      <h2 className="text-base font-medium">{shared.discussion.name}</h2>
+      {shared.messages.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No messages yet.</p>
+      ) : (
+        shared.messages.map(message => (
+          <Card key={message.id} className={`p-4 ${message.sender === "user" ? "bg-muted/40" : ""}`} data-testid={`shared-message-${message.id}`}>
+            <div className="flex items-center gap-2 mb-2">
+              <Badge variant={message.sender === "user" ? "secondary" : "outline"}>{message.sender}</Badge>
+              {message.createdAt && (
+                <span className="text-xs text-muted-foreground">{new Date(message.createdAt).toLocaleString()}</span>
+              )}
+            </div>
+            <div className="whitespace-pre-wrap text-sm">{message.content}</div>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
+
+// Read-only view behind a share link - GET /api/shared/:token
+export default function SharedView() {
+  const { token } = useParams<{ token: string }>();
+  const [discussionId, setDiscussionId] = useState<string | null>(null);
+
+  const { data: view, isLoading, error } = useQuery<SharedViewData>({
+    queryKey: ["/api/shared", token]
+  });
+
+  // Discussions of a shared project are loaded one at a time
+  const { data: openDiscussion, isLoading: isLoadingDiscussion } = useQuery<SharedDiscussion>({
+    queryKey: ["/api/shared", token, "discussions", discussionId],
+    enabled: !!discussionId && view?.kind === "project"
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error || !view) {
+    return (
+      <div className="flex h-full items-center justify-center" data-testid="shared-not-found">
+        <div className="text-center">
+          <MessageSquare className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground">This link is invalid or has been revoked.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full overflow-y-auto px-6 py-4" data-testid="shared-view">
+      <div className="max-w-3xl mx-auto space-y-4">
+        <div className="flex items-center gap-2">
+          <Cherry className="w-5 h-5 text-purple-500" />
+          <h1 className="text-lg font-medium">{view.project.name}</h1>
+          <Badge variant="secondary" className="gap-1">
+            <Eye className="w-3 h-3" />
+            Read-only
+          </Badge>
+        </div>
+        {view.project.instructions && (
+          <Card className="p-4">
+            <p className="text-sm text-muted-foreground">{view.project.instructions}</p>
+          </Card>
+        )}
+
+        {view.shared ? (
+          <SharedMessages shared={view.shared} />
+        ) : discussionId ? (
+          <div className="space-y-3">
+            <Button variant="ghost" size="sm" onClick={() => setDiscussionId(null)} data-testid="button-shared-back">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              All discussions
+            </Button>
+            {isLoadingDiscussion || !openDiscussion ? (
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            ) : (
+              <SharedMessages shared={openDiscussion} />
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {view.contextItems.length > 0 && (
+              <div className="grid gap-2">
+                {view.contextItems.map(item => (
+                  <Card key={item.id} className="p-3">
+                    <div className="flex items-center gap-3">
+                      <File className="w-4 h-4 text-muted-foreground" />
+                      <span className="text-sm font-medium">{item.name}</span>
+                    </div>
+                  </Card>
+                ))}
+              </div>
+            )}
+            <div className="space-y-2">
+              {view.discussions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No discussions yet.</p>
+              ) : (
+                view.discussions.map(discussion => (
+                  <Card
+                    key={discussion.id}
+                    className="p-3 hover-elevate cursor-pointer"
+                    onClick={() => setDiscussionId(discussion.id)}
+                    data-testid={`shared-discussion-${discussion.id}`}
+                  >
+                    <h4 className="text-sm font-medium">{discussion.name}</h4>
+                  </Card>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
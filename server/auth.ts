@@ -0,0 +1,175 @@
+import type { Express, RequestHandler } from "express";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import type pg from "pg";
+import { z } from "zod";
+import { credentialsSchema, type PublicUser, type User } from "@shared/schema";
+import { storage, storageBackend } from "./storage";
+import { pool } from "./db";
+import { syncCustomProviders } from "./services/provider-registry";
+
+// Local username/password accounts - passport-local over express-session. Sessions live in
+// Postgres (connect-pg-simple, auth_sessions table) or, with in-memory storage, in process.
+
+declare global {
+  namespace Express {
+    interface User extends PublicUser {}
+  }
+}
+
+const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+const scryptAsync = promisify(scrypt);
+
+// "salt:hash" in hex
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${salt}:${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(":");
+  if (!salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = (await scryptAsync(password, salt, expected.length)) as Buffer;
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// Usernames are matched case-insensitively
+function normalizeUsername(username: unknown): string {
+  return String(username ?? "").trim().toLowerCase();
+}
+
+function toPublicUser({ passwordHash: _passwordHash, ...user }: User): PublicUser {
+  return user;
+}
+
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  console.warn("[Auth] SESSION_SECRET is not set - using a random secret, sessions end when the server restarts");
+  return randomBytes(32).toString("hex");
+}
+
+function createSessionStore(): session.Store {
+  if (storageBackend === "postgres") {
+    const PgStore = connectPg(session);
+    // The Neon pool speaks the node-postgres API
+    return new PgStore({ pool: pool as pg.Pool, tableName: "auth_sessions" });
+  }
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+// The first account takes over everything created before accounts existed, custom providers included
+async function adoptUnownedData(userId: string): Promise<void> {
+  await storage.claimUnownedData(userId);
+  const settings = await storage.getSettings(userId);
+  syncCustomProviders([], null);
+  syncCustomProviders((settings?.apiKeys as any)?.custom, userId);
+}
+
+export const requireAuth: RequestHandler = (req, res, next) => {
+  if (req.isAuthenticated()) return next();
+  res.status(401).json({ error: "Authentication required" });
+};
+
+// Sessions, passport and the /api/register, /api/login, /api/logout and /api/user routes.
+// Every other /api route registered after this requires a signed-in user.
+export function setupAuth(app: Express): void {
+  app.set("trust proxy", 1);
+  app.use(session({
+    secret: getSessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    store: createSessionStore(),
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: SESSION_MAX_AGE_MS
+    }
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(normalizeUsername(username));
+      if (!user || !await verifyPassword(password, user.passwordHash)) {
+        return done(null, false);
+      }
+      done(null, toPublicUser(user));
+    } catch (error) {
+      done(error);
+    }
+  }));
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ? toPublicUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/register", async (req, res, next) => {
+    try {
+      const credentials = credentialsSchema.parse(req.body);
+      const username = normalizeUsername(credentials.username);
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ error: "Username is already taken" });
+      }
+
+      const user = toPublicUser(await storage.createUser({
+        username,
+        passwordHash: await hashPassword(credentials.password)
+      }));
+      if (await storage.getUserCount() === 1) {
+        await adoptUnownedData(user.id);
+      }
+
+      req.login(user, error => error ? next(error) : res.status(201).json(user));
+    } catch (error) {
+      console.error("Error registering user:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid registration", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to register" });
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (error: unknown, user: Express.User | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+      req.login(user, loginError => loginError ? next(loginError) : res.json(user));
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout(error => {
+      if (error) return next(error);
+      req.session.destroy(() => res.status(204).send());
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not signed in" });
+    }
+    res.json(req.user);
+  });
+
+  app.use("/api", requireAuth);
+}
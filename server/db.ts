@@ -1,15 +1,47 @@
-import { Pool, neonConfig } from '@neondatabase/serverless';
-import { drizzle } from 'drizzle-orm/neon-serverless';
+import { Pool as NeonPool, neonConfig } from '@neondatabase/serverless';
+import { drizzle as drizzleNeon } from 'drizzle-orm/neon-serverless';
+import { drizzle as drizzleNodePg } from 'drizzle-orm/node-postgres';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import pg from 'pg';
 import ws from "ws";
 import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
+// Postgres drivers DatabaseStorage can run on: Neon serverless over websockets, or node-postgres
+// over TCP for an ordinary local or Docker Postgres. Both share the schema in shared/schema.ts.
+export const databaseDrivers = ['neon', 'pg'] as const;
+export type DatabaseDriver = typeof databaseDrivers[number];
+
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+// DATABASE_DRIVER=neon|pg; defaults to neon for Neon hosts and node-postgres for everything else
+export function resolveDatabaseDriver(url = process.env.DATABASE_URL, driver = process.env.DATABASE_DRIVER): DatabaseDriver {
+  if (driver === 'sqlite') {
+    // The storage queries rely on pgvector, full-text search, jsonb operators and percentile_cont
+    throw new Error('SQLite is not supported by DatabaseStorage - unset DATABASE_DRIVER and use STORAGE_BACKEND=memory to run without Postgres');
+  }
+  if (driver) {
+    if (!databaseDrivers.includes(driver as DatabaseDriver)) {
+      throw new Error(`Unknown DATABASE_DRIVER "${driver}" - use ${databaseDrivers.map(d => `"${d}"`).join(' or ')}`);
+    }
+    return driver as DatabaseDriver;
+  }
+
+  try {
+    return url && new URL(url).hostname.endsWith('.neon.tech') ? 'neon' : 'pg';
+  } catch {
+    return 'pg';
+  }
 }
 
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
+export const databaseDriver = resolveDatabaseDriver();
+
+// Pools connect lazily; storage.ts checks DATABASE_URL before choosing the Postgres backend
+export const pool = databaseDriver === 'neon'
+  ? new NeonPool({ connectionString: process.env.DATABASE_URL })
+  : new pg.Pool({ connectionString: process.env.DATABASE_URL });
+
+export const db: Database = databaseDriver === 'neon'
+  ? drizzleNeon({ client: pool as NeonPool, schema })
+  : drizzleNodePg({ client: pool as pg.Pool, schema });
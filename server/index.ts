@@ -1,6 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { httpRequestDuration } from "./services/prometheus";
+import { redactSecrets } from "./services/secrets";
 
 const app = express();
 app.use(express.json());
@@ -19,10 +21,16 @@ app.use((req, res, next) => {
 
   res.on("finish", () => {
     const duration = Date.now() - start;
+    // Label by route pattern (e.g. /api/discussions/:id) to keep the series count bounded
+    httpRequestDuration.observe({
+      method: req.method,
+      route: req.route ? req.baseUrl + req.route.path : "unmatched",
+      status: String(res.statusCode)
+    }, duration / 1000);
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
       if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
+        logLine += ` :: ${JSON.stringify(redactSecrets(capturedJsonResponse))}`;
       }
 
       if (logLine.length > 80) {
@@ -0,0 +1,1032 @@
+import { randomUUID } from "crypto";
+import type {
+  User,
+  InsertUser,
+  Workspace,
+  InsertWorkspace,
+  WorkspaceMember,
+  InsertWorkspaceMember,
+  WorkspaceInvite,
+  InsertWorkspaceInvite,
+  ShareLink,
+  InsertShareLink,
+  Project,
+  InsertProject,
+  Discussion,
+  InsertDiscussion,
+  Message,
+  InsertMessage,
+  ContextItem,
+  InsertContextItem,
+  UserSettings,
+  InsertUserSettings,
+  GlobalContext,
+  InsertGlobalContext,
+  Agent,
+  InsertAgent,
+  Metric,
+  InsertMetric,
+  MetricBucket,
+  MetricSeriesType,
+  SemanticMemory,
+  InsertSemanticMemory,
+  Pattern,
+  InsertPattern
+} from "@shared/schema";
+import { tokenize } from "./services/embeddings";
+import { decryptSettings, encryptApiKeys, needsReencryption, reencryptApiKeys } from "./services/secrets";
+import type {
+  IStorage,
+  SpendDimension,
+  SpendRow,
+  SpendFilter,
+  MetricSeriesRow,
+  MetricSeriesFilter,
+  SemanticMemoryFilter,
+  SemanticMemoryMatch,
+  SemanticMemoryStats,
+  TextSearchRow,
+  WorkspaceMemberWithUser
+} from "./storage";
+
+// In-memory IStorage for development and tests - no database needed. Mirrors DatabaseStorage:
+// column defaults, foreign key cascades, sort orders and the SQL aggregates are reproduced
+// in plain TypeScript. Everything is lost when the process exits.
+
+type CompanionData = {
+  id: string;
+  userId: string | null;
+  observations: unknown;
+  suggestions: unknown;
+  patternMemory: unknown;
+  createdAt: Date | null;
+};
+
+// Rows are copied in and out, like a database would, so callers can't mutate stored state
+function copy<T>(value: T): T {
+  return structuredClone(value);
+}
+
+// Drizzle skips undefined values, so those columns keep their defaults
+function withValues<T extends object>(row: T, values: object): T {
+  const result: Record<string, unknown> = { ...row as Record<string, unknown> };
+  for (const [key, value] of Object.entries(values)) {
+    if (value !== undefined) result[key] = value;
+  }
+  return copy(result as T);
+}
+
+function time(date: Date | null | undefined): number {
+  return date ? date.getTime() : 0;
+}
+
+// Oldest first; rows with equal timestamps keep insertion order
+function ascending<T>(rows: T[], key: (row: T) => Date | null | undefined): T[] {
+  return [...rows].sort((a, b) => time(key(a)) - time(key(b)));
+}
+
+// Newest first; rows with equal timestamps come out newest-inserted first
+function descending<T>(rows: T[], key: (row: T) => Date | null | undefined): T[] {
+  return ascending(rows, key).reverse();
+}
+
+function metadataOf(metric: Metric): Record<string, any> {
+  return metric.metadata && typeof metric.metadata === 'object' ? metric.metadata as Record<string, any> : {};
+}
+
+// (promptTokens + completionTokens), or null when either is missing, like the SQL sum
+function metricTokens(metric: Metric): number | null {
+  const { promptTokens, completionTokens } = metadataOf(metric);
+  const prompt = Number.parseInt(promptTokens);
+  const completion = Number.parseInt(completionTokens);
+  return Number.isFinite(prompt) && Number.isFinite(completion) ? prompt + completion : null;
+}
+
+function metricCost(metric: Metric): number {
+  const cost = Number(metadataOf(metric).costUsd);
+  return Number.isFinite(cost) ? cost : 0;
+}
+
+// date_trunc in UTC
+function bucketStart(date: Date, bucket: MetricBucket): number {
+  const start = new Date(date);
+  start.setUTCSeconds(0, 0);
+  if (bucket === 'hour' || bucket === 'day') start.setUTCMinutes(0);
+  if (bucket === 'day') start.setUTCHours(0);
+  return start.getTime();
+}
+
+// percentile_cont: linear interpolation between the closest ranks
+function percentile(values: number[], fraction: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * fraction;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function matchesMemoryFilter(memory: SemanticMemory, filter: SemanticMemoryFilter): boolean {
+  return (!filter.discussionId || memory.discussionId === filter.discussionId)
+    && (!filter.projectId || memory.projectId === filter.projectId)
+    && (!filter.workspaceId || memory.workspaceId === filter.workspaceId)
+    && (!filter.phase || memory.phase === filter.phase);
+}
+
+// Stand-in for ts_rank: every query term must prefix a word of the text (a rough stemmer);
+// the score is the share of the text's words that matched
+function textRank(text: string, terms: string[]): number {
+  if (terms.length === 0) return 0;
+  const words = tokenize(text);
+  let hits = 0;
+  for (const term of terms) {
+    const count = words.filter(word => word.startsWith(term)).length;
+    if (count === 0) return 0;
+    hits += count;
+  }
+  return hits / (words.length + 1);
+}
+
+export class MemStorage implements IStorage {
+  private users = new Map<string, User>();
+  private workspaces = new Map<string, Workspace>();
+  private workspaceMembers = new Map<string, WorkspaceMember>();
+  private workspaceInvites = new Map<string, WorkspaceInvite>();
+  private shareLinks = new Map<string, ShareLink>();
+  private projects = new Map<string, Project>();
+  private discussions = new Map<string, Discussion>();
+  private messages = new Map<string, Message>();
+  private contextItems = new Map<string, ContextItem>();
+  private settings = new Map<string, UserSettings>();
+  private globalContext = new Map<string, GlobalContext>();
+  private companions = new Map<string, CompanionData>();
+  private agents = new Map<string, Agent>();
+  private metrics = new Map<string, Metric>();
+  private semanticMemories = new Map<string, SemanticMemory>();
+  private patterns = new Map<string, Pattern>();
+
+  // UPDATE ... RETURNING on a missing row yields nothing, which DatabaseStorage passes through
+  private update<T extends { id: string }>(table: Map<string, T>, id: string, updates: object): T {
+    const existing = table.get(id);
+    if (!existing) return undefined as unknown as T;
+    const updated = withValues(existing, updates);
+    table.set(id, updated);
+    return copy(updated);
+  }
+
+  private insert<T extends { id: string }>(table: Map<string, T>, row: T): T {
+    table.set(row.id, row);
+    return copy(row);
+  }
+
+  private deleteWhere<T>(table: Map<string, T>, predicate: (row: T) => boolean): string[] {
+    const ids: string[] = [];
+    for (const [id, row] of Array.from(table.entries())) {
+      if (predicate(row)) {
+        table.delete(id);
+        ids.push(id);
+      }
+    }
+    return ids;
+  }
+
+  // The user's own projects, and those in workspaces they own or are a member of
+  private isAccessibleProject(project: Project | undefined, userId: string): project is Project {
+    if (!project) return false;
+    if (project.ownerId === userId) return true;
+    if (!project.workspaceId) return false;
+    return this.workspaces.get(project.workspaceId)?.ownerId === userId
+      || Array.from(this.workspaceMembers.values()).some(member => member.workspaceId === project.workspaceId && member.userId === userId);
+  }
+
+  private matchesMemory(memory: SemanticMemory, filter: SemanticMemoryFilter): boolean {
+    return matchesMemoryFilter(memory, filter)
+      && (!filter.userId || (!!memory.projectId && this.isAccessibleProject(this.projects.get(memory.projectId), filter.userId)));
+  }
+
+  // Metrics of the projects the user can access; every metric when no user is given
+  private isAccessibleMetric(metric: Metric, userId: string | undefined): boolean {
+    if (!userId) return true;
+    return !!metric.projectId && this.isAccessibleProject(this.projects.get(metric.projectId), userId);
+  }
+
+  // User operations
+  async getUser(id: string): Promise<User | undefined> {
+    const user = this.users.get(id);
+    return user ? copy(user) : undefined;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const user = Array.from(this.users.values()).find(user => user.username === username);
+    return user ? copy(user) : undefined;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    if (await this.getUserByUsername(insertUser.username)) {
+      // Same failure as the unique constraint on users.username
+      throw new Error(`Username "${insertUser.username}" is already taken`);
+    }
+    return this.insert(this.users, withValues<User>({
+      id: randomUUID(),
+      username: '',
+      passwordHash: '',
+      createdAt: new Date()
+    }, insertUser));
+  }
+
+  async getUserCount(): Promise<number> {
+    return this.users.size;
+  }
+
+  async claimUnownedData(userId: string): Promise<void> {
+    for (const table of [this.workspaces, this.projects, this.agents, this.globalContext] as Map<string, { ownerId: string | null }>[]) {
+      for (const row of Array.from(table.values())) {
+        if (!row.ownerId) row.ownerId = userId;
+      }
+    }
+    const legacySettings = this.settings.get('default');
+    if (legacySettings && !legacySettings.userId && !await this.getSettings(userId)) {
+      legacySettings.userId = userId;
+    }
+    const companion = Array.from(this.companions.values()).find(companion => !companion.userId);
+    if (companion && !await this.getCompanionData(userId)) {
+      companion.userId = userId;
+    }
+  }
+
+  // Workspace operations
+  async getWorkspace(id: string): Promise<Workspace | undefined> {
+    const workspace = this.workspaces.get(id);
+    return workspace ? copy(workspace) : undefined;
+  }
+
+  async getAllWorkspaces(userId: string): Promise<Workspace[]> {
+    const memberOf = new Set(Array.from(this.workspaceMembers.values())
+      .filter(member => member.userId === userId)
+      .map(member => member.workspaceId));
+    const workspaces = Array.from(this.workspaces.values())
+      .filter(workspace => workspace.ownerId === userId || memberOf.has(workspace.id));
+    return copy(descending(workspaces, workspace => workspace.createdAt));
+  }
+
+  async createWorkspace(insertWorkspace: InsertWorkspace): Promise<Workspace> {
+    return this.insert(this.workspaces, withValues<Workspace>({
+      id: randomUUID(),
+      ownerId: null,
+      name: '',
+      description: null,
+      createdAt: new Date()
+    }, insertWorkspace));
+  }
+
+  async deleteWorkspace(id: string): Promise<void> {
+    if (!this.workspaces.delete(id)) return;
+    for (const project of Array.from(this.projects.values())) {
+      if (project.workspaceId === id) await this.deleteProject(project.id);
+    }
+    this.deleteWhere(this.workspaceMembers, member => member.workspaceId === id);
+    this.deleteWhere(this.workspaceInvites, invite => invite.workspaceId === id);
+    this.deleteWhere(this.semanticMemories, memory => memory.workspaceId === id);
+  }
+
+  // Workspace membership operations
+  async getWorkspaceMember(workspaceId: string, userId: string): Promise<WorkspaceMember | undefined> {
+    const member = Array.from(this.workspaceMembers.values())
+      .find(member => member.workspaceId === workspaceId && member.userId === userId);
+    return member ? copy(member) : undefined;
+  }
+
+  async getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMemberWithUser[]> {
+    const members = Array.from(this.workspaceMembers.values())
+      .filter(member => member.workspaceId === workspaceId && this.users.has(member.userId));
+    return copy(ascending(members, member => member.createdAt))
+      .map(member => ({ ...member, username: this.users.get(member.userId)!.username }));
+  }
+
+  async upsertWorkspaceMember(member: InsertWorkspaceMember): Promise<WorkspaceMember> {
+    const existing = await this.getWorkspaceMember(member.workspaceId, member.userId);
+    if (existing) {
+      return this.update(this.workspaceMembers, existing.id, { role: member.role });
+    }
+    return this.insert(this.workspaceMembers, withValues<WorkspaceMember>({
+      id: randomUUID(),
+      workspaceId: '',
+      userId: '',
+      role: 'viewer',
+      createdAt: new Date()
+    }, member));
+  }
+
+  async removeWorkspaceMember(workspaceId: string, userId: string): Promise<void> {
+    this.deleteWhere(this.workspaceMembers, member => member.workspaceId === workspaceId && member.userId === userId);
+  }
+
+  async getWorkspaceInvites(workspaceId: string): Promise<WorkspaceInvite[]> {
+    const invites = Array.from(this.workspaceInvites.values()).filter(invite => invite.workspaceId === workspaceId);
+    return copy(descending(invites, invite => invite.createdAt));
+  }
+
+  async getWorkspaceInviteByToken(token: string): Promise<WorkspaceInvite | undefined> {
+    const invite = Array.from(this.workspaceInvites.values()).find(invite => invite.token === token);
+    return invite ? copy(invite) : undefined;
+  }
+
+  async createWorkspaceInvite(insertInvite: InsertWorkspaceInvite): Promise<WorkspaceInvite> {
+    return this.insert(this.workspaceInvites, withValues<WorkspaceInvite>({
+      id: randomUUID(),
+      workspaceId: '',
+      token: '',
+      role: 'viewer',
+      createdBy: null,
+      expiresAt: null,
+      createdAt: new Date()
+    }, insertInvite));
+  }
+
+  async deleteWorkspaceInvite(id: string): Promise<void> {
+    this.workspaceInvites.delete(id);
+  }
+
+  // Project operations
+  async getProject(id: string): Promise<Project | undefined> {
+    const project = this.projects.get(id);
+    return project ? copy(project) : undefined;
+  }
+
+  async getAllProjects(userId: string): Promise<Project[]> {
+    const projects = Array.from(this.projects.values()).filter(project => this.isAccessibleProject(project, userId));
+    return copy(descending(projects, project => project.createdAt));
+  }
+
+  async getProjectsByWorkspace(workspaceId: string): Promise<Project[]> {
+    const projects = Array.from(this.projects.values()).filter(project => project.workspaceId === workspaceId);
+    return copy(descending(projects, project => project.createdAt));
+  }
+
+  async createProject(insertProject: InsertProject): Promise<Project> {
+    return this.insert(this.projects, withValues<Project>({
+      id: randomUUID(),
+      workspaceId: null,
+      ownerId: null,
+      name: '',
+      description: null,
+      instructions: null,
+      isTemplate: false,
+      templateSource: null,
+      budget: null,
+      promptTemplates: null,
+      createdAt: new Date()
+    }, insertProject));
+  }
+
+  async updateProject(id: string, updates: Partial<InsertProject>): Promise<Project> {
+    return this.update(this.projects, id, updates);
+  }
+
+  async cloneProject(id: string, newName: string, ownerId: string): Promise<Project> {
+    const originalProject = await this.getProject(id);
+    if (!originalProject) {
+      throw new Error('Project not found');
+    }
+
+    const clonedProject = await this.createProject({
+      workspaceId: originalProject.workspaceId,
+      ownerId,
+      name: newName,
+      description: originalProject.description,
+      instructions: originalProject.instructions,
+      promptTemplates: originalProject.promptTemplates as InsertProject['promptTemplates'],
+      isTemplate: false,
+      templateSource: id
+    });
+
+    for (const item of await this.getContextItemsByProject(id)) {
+      await this.createContextItem({
+        projectId: clonedProject.id,
+        type: item.type,
+        name: item.name,
+        content: item.content,
+        metadata: item.metadata || {}
+      });
+    }
+
+    return clonedProject;
+  }
+
+  async deleteProject(id: string): Promise<void> {
+    if (!this.projects.delete(id)) return;
+    for (const discussion of Array.from(this.discussions.values())) {
+      if (discussion.projectId === id) await this.deleteDiscussion(discussion.id);
+    }
+    this.deleteWhere(this.contextItems, item => item.projectId === id);
+    this.deleteWhere(this.shareLinks, link => link.projectId === id);
+    this.deleteWhere(this.metrics, metric => metric.projectId === id);
+    this.deleteWhere(this.semanticMemories, memory => memory.projectId === id);
+  }
+
+  // Share link operations
+  async getShareLink(id: string): Promise<ShareLink | undefined> {
+    const link = this.shareLinks.get(id);
+    return link ? copy(link) : undefined;
+  }
+
+  async getShareLinkByToken(token: string): Promise<ShareLink | undefined> {
+    const link = Array.from(this.shareLinks.values()).find(link => link.token === token);
+    return link ? copy(link) : undefined;
+  }
+
+  async getShareLinksByProject(projectId: string): Promise<ShareLink[]> {
+    const links = Array.from(this.shareLinks.values()).filter(link => link.projectId === projectId);
+    return copy(descending(links, link => link.createdAt));
+  }
+
+  async createShareLink(insertLink: InsertShareLink): Promise<ShareLink> {
+    return this.insert(this.shareLinks, withValues<ShareLink>({
+      id: randomUUID(),
+      token: '',
+      projectId: '',
+      discussionId: null,
+      createdBy: null,
+      createdAt: new Date()
+    }, insertLink));
+  }
+
+  async deleteShareLink(id: string): Promise<void> {
+    this.shareLinks.delete(id);
+  }
+
+  // Discussion operations
+  async getDiscussion(id: string): Promise<Discussion | undefined> {
+    const discussion = this.discussions.get(id);
+    return discussion ? copy(discussion) : undefined;
+  }
+
+  async getDiscussions(userId: string): Promise<Discussion[]> {
+    const discussions = Array.from(this.discussions.values())
+      .filter(discussion => this.isAccessibleProject(this.projects.get(discussion.projectId), userId));
+    return copy(descending(discussions, discussion => discussion.createdAt));
+  }
+
+  async getDiscussionsByProject(projectId: string): Promise<Discussion[]> {
+    const discussions = Array.from(this.discussions.values()).filter(discussion => discussion.projectId === projectId);
+    return copy(descending(discussions, discussion => discussion.createdAt));
+  }
+
+  async createDiscussion(insertDiscussion: InsertDiscussion): Promise<Discussion> {
+    return this.insert(this.discussions, withValues<Discussion>({
+      id: randomUUID(),
+      projectId: '',
+      name: '',
+      context: [],
+      currentPhase: 'plasma',
+      phaseHistory: [],
+      phaseLocked: false,
+      breathCount: 0,
+      detectedPatterns: [],
+      generationOptions: {},
+      responseMode: {},
+      historySummary: null,
+      createdAt: new Date()
+    }, insertDiscussion));
+  }
+
+  async updateDiscussion(id: string, updates: Partial<InsertDiscussion>): Promise<Discussion> {
+    return this.update(this.discussions, id, updates);
+  }
+
+  async cloneDiscussion(id: string): Promise<Discussion> {
+    const originalDiscussion = await this.getDiscussion(id);
+    if (!originalDiscussion) {
+      throw new Error('Discussion not found');
+    }
+
+    const clonedDiscussion = await this.createDiscussion({
+      projectId: originalDiscussion.projectId,
+      name: `${originalDiscussion.name} (Copy)`,
+      breathCount: 0,
+      detectedPatterns: [],
+      currentPhase: 'plasma'
+    });
+
+    for (const message of await this.getMessagesByDiscussion(id)) {
+      await this.createMessage({
+        discussionId: clonedDiscussion.id,
+        content: message.content,
+        sender: message.sender,
+        llmProvider: message.llmProvider
+      });
+    }
+
+    return clonedDiscussion;
+  }
+
+  async deleteDiscussion(id: string): Promise<void> {
+    if (!this.discussions.delete(id)) return;
+    await this.deleteMessagesByDiscussion(id);
+    this.deleteWhere(this.metrics, metric => metric.discussionId === id);
+    this.deleteWhere(this.semanticMemories, memory => memory.discussionId === id);
+    this.deleteWhere(this.patterns, pattern => pattern.discussionId === id);
+    this.deleteWhere(this.shareLinks, link => link.discussionId === id);
+  }
+
+  // Message operations
+  async getMessage(id: string): Promise<Message | undefined> {
+    const message = this.messages.get(id);
+    return message ? copy(message) : undefined;
+  }
+
+  async getMessagesByDiscussion(discussionId: string): Promise<Message[]> {
+    const messages = Array.from(this.messages.values()).filter(message => message.discussionId === discussionId);
+    return copy(ascending(messages, message => message.createdAt));
+  }
+
+  async createMessage(insertMessage: InsertMessage): Promise<Message> {
+    return this.insert(this.messages, withValues<Message>({
+      id: randomUUID(),
+      discussionId: '',
+      content: '',
+      sender: '',
+      llmProvider: null,
+      metadata: {},
+      createdAt: new Date()
+    }, insertMessage));
+  }
+
+  async deleteMessagesByDiscussion(discussionId: string): Promise<void> {
+    const deleted = new Set(this.deleteWhere(this.messages, message => message.discussionId === discussionId));
+    // semantic_memories.message_id is ON DELETE SET NULL
+    for (const memory of Array.from(this.semanticMemories.values())) {
+      if (memory.messageId && deleted.has(memory.messageId)) memory.messageId = null;
+    }
+  }
+
+  // Context operations
+  async getContextItem(id: string): Promise<ContextItem | undefined> {
+    const item = this.contextItems.get(id);
+    return item ? copy(item) : undefined;
+  }
+
+  async getContextItemsByProject(projectId: string): Promise<ContextItem[]> {
+    const items = Array.from(this.contextItems.values()).filter(item => item.projectId === projectId);
+    return copy(ascending(items, item => item.createdAt));
+  }
+
+  async createContextItem(insertItem: InsertContextItem): Promise<ContextItem> {
+    return this.insert(this.contextItems, withValues<ContextItem>({
+      id: randomUUID(),
+      projectId: '',
+      type: '',
+      name: '',
+      content: null,
+      metadata: {},
+      createdAt: new Date()
+    }, insertItem));
+  }
+
+  async deleteContextItem(id: string): Promise<void> {
+    this.contextItems.delete(id);
+  }
+
+  // Settings operations
+  // Rows hold apiKeys encrypted, as DatabaseStorage does
+  async getSettings(userId: string): Promise<UserSettings | undefined> {
+    const settings = Array.from(this.settings.values()).find(settings => settings.userId === userId);
+    return settings ? decryptSettings(copy(settings)) : undefined;
+  }
+
+  async getAllSettings(): Promise<UserSettings[]> {
+    return copy(Array.from(this.settings.values())).map(decryptSettings);
+  }
+
+  async updateSettings(userId: string, settingsUpdate: Partial<InsertUserSettings>): Promise<UserSettings> {
+    if (settingsUpdate.apiKeys !== undefined) {
+      settingsUpdate = { ...settingsUpdate, apiKeys: encryptApiKeys(settingsUpdate.apiKeys) };
+    }
+    const existing = Array.from(this.settings.values()).find(settings => settings.userId === userId);
+    const settings = withValues<UserSettings>(existing ? copy(existing) : {
+      id: randomUUID(),
+      userId,
+      apiKeys: {},
+      preferences: {},
+      globalContext: [],
+      companionConfig: {},
+      promptTemplates: {},
+      updatedAt: null
+    }, { ...settingsUpdate, updatedAt: new Date() });
+    this.settings.set(settings.id, settings);
+    return decryptSettings(copy(settings));
+  }
+
+  async reencryptApiKeys(): Promise<number> {
+    const stale = Array.from(this.settings.values()).filter(settings => needsReencryption(settings.apiKeys));
+    for (const settings of stale) {
+      settings.apiKeys = reencryptApiKeys(settings.apiKeys);
+    }
+    return stale.length;
+  }
+
+  // Global context operations
+  async getGlobalContext(ownerId: string): Promise<GlobalContext[]> {
+    const items = Array.from(this.globalContext.values()).filter(item => item.ownerId === ownerId);
+    return copy(ascending(items, item => item.createdAt));
+  }
+
+  async createGlobalContext(insertItem: InsertGlobalContext): Promise<GlobalContext> {
+    return this.insert(this.globalContext, withValues<GlobalContext>({
+      id: randomUUID(),
+      ownerId: null,
+      type: '',
+      content: '',
+      metadata: {},
+      createdAt: new Date()
+    }, insertItem));
+  }
+
+  async deleteGlobalContext(id: string): Promise<void> {
+    this.globalContext.delete(id);
+  }
+
+  async getGlobalContextByType(ownerId: string, type: string): Promise<GlobalContext[]> {
+    return (await this.getGlobalContext(ownerId)).filter(item => item.type === type);
+  }
+
+  // Companion agent operations
+  async getCompanionData(userId: string): Promise<any | undefined> {
+    const companion = Array.from(this.companions.values()).find(companion => companion.userId === userId);
+    return companion ? copy(companion) : undefined;
+  }
+
+  async updateCompanionData(userId: string, data: { observations?: any[]; suggestions?: any[]; patternMemory?: any }): Promise<any> {
+    const companion = withValues<CompanionData>(await this.getCompanionData(userId) ?? {
+      id: randomUUID(),
+      userId,
+      observations: [],
+      suggestions: [],
+      patternMemory: {},
+      createdAt: new Date()
+    }, data);
+    this.companions.set(companion.id, companion);
+    return copy(companion);
+  }
+
+  async addCompanionObservation(userId: string, observation: any): Promise<void> {
+    const companion = await this.getCompanionData(userId);
+    const observations = companion?.observations || [];
+    observations.push(observation);
+    await this.updateCompanionData(userId, { observations });
+  }
+
+  async addCompanionSuggestion(userId: string, suggestion: any): Promise<void> {
+    const companion = await this.getCompanionData(userId);
+    const suggestions = companion?.suggestions || [];
+    suggestions.push(suggestion);
+    await this.updateCompanionData(userId, { suggestions });
+  }
+
+  // Agent methods
+  async getAgents(ownerId: string): Promise<Agent[]> {
+    const agents = Array.from(this.agents.values()).filter(agent => agent.ownerId === ownerId);
+    return copy(ascending(agents, agent => agent.createdAt));
+  }
+
+  async createAgent(agent: InsertAgent): Promise<Agent> {
+    return this.insert(this.agents, withValues<Agent>({
+      id: randomUUID(),
+      ownerId: null,
+      name: '',
+      description: null,
+      currentMode: 'plasma',
+      llmProvider: 'claude',
+      systemPrompt: null,
+      generationOptions: {},
+      createdBy: 'user',
+      parentDiscussion: null,
+      createdAt: new Date()
+    }, agent));
+  }
+
+  async deleteAgent(id: string): Promise<void> {
+    this.agents.delete(id);
+  }
+
+  async updateDiscussionAgentsMode(discussionId: string, mode: string): Promise<void> {
+    for (const agent of Array.from(this.agents.values())) {
+      if (agent.parentDiscussion === discussionId) {
+        this.update(this.agents, agent.id, { currentMode: mode });
+      }
+    }
+  }
+
+  // Metrics operations
+  async getMetrics(): Promise<Metric[]> {
+    return copy(descending(Array.from(this.metrics.values()), metric => metric.timestamp));
+  }
+
+  async getMetricCounts(since: Date, userId?: string): Promise<Record<string, number>> {
+    const counts: Record<string, number> = {};
+    for (const metric of Array.from(this.metrics.values())) {
+      if (time(metric.timestamp) >= since.getTime() && this.isAccessibleMetric(metric, userId)) counts[metric.type] = (counts[metric.type] || 0) + 1;
+    }
+    return counts;
+  }
+
+  async getMetricAverage(type: string, since: Date, userId?: string): Promise<number> {
+    const values = Array.from(this.metrics.values())
+      .filter(metric => metric.type === type && time(metric.timestamp) >= since.getTime() && this.isAccessibleMetric(metric, userId))
+      .map(metric => metric.value);
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+  }
+
+  async getSpend(groupBy: SpendDimension, filter: SpendFilter = {}): Promise<SpendRow[]> {
+    const keys: Record<SpendDimension, (metric: Metric) => string | null | undefined> = {
+      provider: metric => metadataOf(metric).provider,
+      project: metric => metric.projectId,
+      discussion: metric => metric.discussionId,
+      day: metric => metric.timestamp?.toISOString().slice(0, 10)
+    };
+    const rows = new Map<string, SpendRow>();
+
+    for (const metric of Array.from(this.metrics.values())) {
+      const key = keys[groupBy](metric);
+      if (metric.type !== 'llm_call' || !('costUsd' in metadataOf(metric)) || key == null) continue;
+      if (filter.since && time(metric.timestamp) < filter.since.getTime()) continue;
+      if (filter.projectId && metric.projectId !== filter.projectId) continue;
+      if (!this.isAccessibleMetric(metric, filter.userId)) continue;
+
+      const row = rows.get(String(key)) || { key: String(key), costUsd: 0, tokens: 0, calls: 0 };
+      row.costUsd += metricCost(metric);
+      row.tokens += metricTokens(metric) ?? 0;
+      row.calls += 1;
+      rows.set(row.key, row);
+    }
+
+    return Array.from(rows.values()).sort((a, b) => b.costUsd - a.costUsd);
+  }
+
+  async getMetricSeries(type: MetricSeriesType, filter: MetricSeriesFilter): Promise<MetricSeriesRow[]> {
+    const measures: Record<MetricSeriesType, { types: string[]; columns: (metrics: Metric[]) => Record<string, number>; where?: (metric: Metric) => boolean }> = {
+      latency: {
+        types: ['response_time'],
+        columns: metrics => {
+          const values = metrics.map(metric => metric.value);
+          return { p50: percentile(values, 0.5), p95: percentile(values, 0.95) };
+        }
+      },
+      errors: {
+        types: ['llm_call', 'llm_success'],
+        columns: metrics => ({
+          calls: metrics.filter(metric => metric.type === 'llm_call').length,
+          successes: metrics.filter(metric => metric.type === 'llm_success').length
+        })
+      },
+      calls: {
+        types: ['llm_call'],
+        columns: metrics => ({ calls: metrics.length })
+      },
+      tokens: {
+        types: ['llm_call'],
+        columns: metrics => ({
+          tokens: metrics.reduce((sum, metric) => sum + (metricTokens(metric) ?? 0), 0),
+          costUsd: metrics.reduce((sum, metric) => sum + metricCost(metric), 0)
+        }),
+        where: metric => 'costUsd' in metadataOf(metric)
+      }
+    };
+    const { types, columns, where } = measures[type];
+
+    const buckets = new Map<number, Metric[]>();
+    for (const metric of Array.from(this.metrics.values())) {
+      if (!metric.timestamp || !types.includes(metric.type)) continue;
+      if (metric.timestamp < filter.from || metric.timestamp > filter.to) continue;
+      if (filter.provider && metadataOf(metric).provider !== filter.provider) continue;
+      if (filter.projectId && metric.projectId !== filter.projectId) continue;
+      if (filter.discussionId && metric.discussionId !== filter.discussionId) continue;
+      if (!this.isAccessibleMetric(metric, filter.userId)) continue;
+      if (where && !where(metric)) continue;
+
+      const start = bucketStart(metric.timestamp, filter.bucket);
+      buckets.set(start, [...(buckets.get(start) || []), metric]);
+    }
+
+    return Array.from(buckets.entries())
+      .sort((a, b) => a[0] - b[0])
+      .map(([start, metrics]) => ({ time: start, ...columns(metrics) }) as MetricSeriesRow);
+  }
+
+  async addMetric(insertMetric: InsertMetric): Promise<Metric> {
+    return this.insert(this.metrics, withValues<Metric>({
+      id: randomUUID(),
+      type: '',
+      value: 0,
+      metadata: null,
+      timestamp: new Date(),
+      discussionId: null,
+      projectId: null
+    }, insertMetric));
+  }
+
+  // Semantic memory operations
+  async createSemanticMemory(memory: InsertSemanticMemory): Promise<SemanticMemory> {
+    return this.insert(this.semanticMemories, withValues<SemanticMemory>({
+      id: randomUUID(),
+      discussionId: null,
+      projectId: null,
+      workspaceId: null,
+      messageId: null,
+      llm: '',
+      content: '',
+      embedding: [],
+      embeddingModel: '',
+      phase: 'plasma',
+      breathCount: 0,
+      patterns: [],
+      createdAt: new Date()
+    }, memory));
+  }
+
+  async getSemanticMemories(filter: SemanticMemoryFilter & { limit?: number } = {}): Promise<SemanticMemory[]> {
+    const memories = descending(
+      Array.from(this.semanticMemories.values()).filter(memory => this.matchesMemory(memory, filter)),
+      memory => memory.createdAt
+    );
+    return copy(filter.limit ? memories.slice(0, filter.limit) : memories);
+  }
+
+  async findSimilarMemories(
+    embedding: number[],
+    embeddingModel: string,
+    options: SemanticMemoryFilter & { threshold: number; limit: number; withEmbeddings?: boolean }
+  ): Promise<SemanticMemoryMatch[]> {
+    const matches: SemanticMemoryMatch[] = [];
+    for (const memory of Array.from(this.semanticMemories.values())) {
+      if (memory.embeddingModel !== embeddingModel || memory.embedding.length !== embedding.length) continue;
+      if (!this.matchesMemory(memory, options)) continue;
+      const similarity = cosineSimilarity(memory.embedding, embedding);
+      if (similarity < options.threshold) continue;
+
+      const { embedding: vector, ...columns } = memory;
+      matches.push({ ...columns, ...(options.withEmbeddings ? { embedding: vector } : {}), similarity });
+    }
+    return copy(matches.sort((a, b) => b.similarity - a.similarity).slice(0, options.limit));
+  }
+
+  async getSemanticMemoryStats(filter: SemanticMemoryFilter = {}): Promise<SemanticMemoryStats> {
+    const memories = await this.getSemanticMemories(filter);
+    const phaseDistribution: Record<string, number> = {};
+    for (const memory of memories) {
+      phaseDistribution[memory.phase] = (phaseDistribution[memory.phase] || 0) + 1;
+    }
+
+    return {
+      total: memories.length,
+      phaseDistribution,
+      latestBreathCount: memories[0]?.breathCount ?? 0
+    };
+  }
+
+  async getStaleSemanticMemories(embeddingModel: string, dimensions: number, limit: number, filter: SemanticMemoryFilter): Promise<Pick<SemanticMemory, 'id' | 'content'>[]> {
+    return ascending(Array.from(this.semanticMemories.values()), memory => memory.createdAt)
+      .filter(memory => this.matchesMemory(memory, filter))
+      .filter(memory => memory.embeddingModel !== embeddingModel || memory.embedding.length !== dimensions)
+      .slice(0, limit)
+      .map(({ id, content }) => ({ id, content }));
+  }
+
+  async updateSemanticMemoryEmbedding(id: string, embedding: number[], embeddingModel: string): Promise<void> {
+    this.update(this.semanticMemories, id, { embedding, embeddingModel });
+  }
+
+  async pruneSemanticMemories(options: { discussionId?: string; keep?: number; before?: Date }): Promise<number> {
+    let removed = 0;
+
+    if (options.discussionId && options.keep !== undefined) {
+      const stale = new Set(
+        (await this.getSemanticMemories({ discussionId: options.discussionId }))
+          .slice(options.keep)
+          .map(memory => memory.id)
+      );
+      removed += this.deleteWhere(this.semanticMemories, memory => stale.has(memory.id)).length;
+    }
+
+    if (options.before) {
+      const before = options.before.getTime();
+      removed += this.deleteWhere(this.semanticMemories, memory => !!memory.createdAt && memory.createdAt.getTime() < before).length;
+    }
+
+    return removed;
+  }
+
+  async deleteSemanticMemories(filter: SemanticMemoryFilter = {}): Promise<void> {
+    this.deleteWhere(this.semanticMemories, memory => this.matchesMemory(memory, filter));
+  }
+
+  // Pattern operations - strongest first
+  async getPatternsByDiscussion(discussionId: string): Promise<Pattern[]> {
+    return copy(
+      descending(
+        Array.from(this.patterns.values()).filter(pattern => pattern.discussionId === discussionId),
+        pattern => pattern.lastSeenAt
+      ).sort((a, b) => b.strength - a.strength)
+    );
+  }
+
+  async createPattern(pattern: InsertPattern): Promise<Pattern> {
+    const now = new Date();
+    return this.insert(this.patterns, withValues<Pattern>({
+      id: randomUUID(),
+      discussionId: '',
+      label: '',
+      strength: 0,
+      status: 'emerging',
+      detections: 1,
+      messageIds: [],
+      firstSeenAt: now,
+      lastSeenAt: now,
+      updatedAt: now,
+      resolvedAt: null
+    }, pattern));
+  }
+
+  async updatePattern(id: string, updates: Partial<InsertPattern>): Promise<Pattern> {
+    return this.update(this.patterns, id, updates);
+  }
+
+  // Term matching in place of Postgres full-text search; discussion names also match by substring
+  async searchText(query: string, options: { limit: number; projectId?: string; userId?: string }): Promise<TextSearchRow[]> {
+    const terms = tokenize(query);
+    const needle = query.trim().toLowerCase();
+    const rank = <T extends { score: number; createdAt: Date | null }>(rows: T[]): T[] =>
+      descending(rows.filter(row => row.score > 0), row => row.createdAt)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, options.limit);
+    const inScope = (projectId: string) => {
+      const project = this.projects.get(projectId);
+      const visible = (!options.projectId || projectId === options.projectId) && (!options.userId || this.isAccessibleProject(project, options.userId));
+      return project && visible ? project : undefined;
+    };
+
+    const messageRows: TextSearchRow[] = [];
+    for (const message of Array.from(this.messages.values())) {
+      const discussion = this.discussions.get(message.discussionId);
+      const project = discussion && inScope(discussion.projectId);
+      if (!discussion || !project) continue;
+      messageRows.push({
+        type: 'message',
+        id: message.id,
+        title: discussion.name,
+        content: message.content,
+        score: textRank(message.content, terms),
+        projectId: project.id,
+        projectName: project.name,
+        discussionId: discussion.id,
+        sender: message.sender,
+        createdAt: message.createdAt
+      });
+    }
+
+    const discussionRows: TextSearchRow[] = [];
+    for (const discussion of Array.from(this.discussions.values())) {
+      const project = inScope(discussion.projectId);
+      if (!project) continue;
+      const nameMatch = needle.length > 0 && discussion.name.toLowerCase().includes(needle);
+      discussionRows.push({
+        type: 'discussion',
+        id: discussion.id,
+        title: discussion.name,
+        content: discussion.name,
+        score: textRank(discussion.name, terms) + (nameMatch ? 1 : 0),
+        projectId: project.id,
+        projectName: project.name,
+        discussionId: discussion.id,
+        createdAt: discussion.createdAt
+      });
+    }
+
+    const contextRows: TextSearchRow[] = [];
+    for (const item of Array.from(this.contextItems.values())) {
+      const project = inScope(item.projectId);
+      if (!project) continue;
+      contextRows.push({
+        type: 'context',
+        id: item.id,
+        title: item.name,
+        content: item.content ?? item.name,
+        score: textRank(`${item.name} ${item.content ?? ''}`, terms),
+        projectId: project.id,
+        projectName: project.name,
+        createdAt: item.createdAt
+      });
+    }
+
+    return copy([...rank(messageRows), ...rank(discussionRows), ...rank(contextRows)]);
+  }
+}
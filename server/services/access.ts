@@ -0,0 +1,24 @@
+import { workspaceRoles, type Project, type Workspace, type WorkspaceRole } from "@shared/schema";
+import { storage } from "../storage";
+
+// Workspace access - a user's role on a workspace or project. The workspace's ownerId and a
+// project's ownerId are always owners; everyone else gets the role of their membership, and
+// users outside the workspace have no access at all.
+
+export async function getWorkspaceRole(userId: string, workspace: Workspace): Promise<WorkspaceRole | undefined> {
+  if (workspace.ownerId === userId) return 'owner';
+  const member = await storage.getWorkspaceMember(workspace.id, userId);
+  return member?.role as WorkspaceRole | undefined;
+}
+
+export async function getProjectRole(userId: string, project: Project): Promise<WorkspaceRole | undefined> {
+  if (project.ownerId === userId) return 'owner';
+  if (!project.workspaceId) return undefined;
+  const workspace = await storage.getWorkspace(project.workspaceId);
+  return workspace ? getWorkspaceRole(userId, workspace) : undefined;
+}
+
+// Roles are ordered, so an owner can do everything an editor can
+export function hasRole(role: WorkspaceRole | undefined, required: WorkspaceRole): boolean {
+  return !!role && workspaceRoles.indexOf(role) >= workspaceRoles.indexOf(required);
+}
@@ -1,28 +1,51 @@
 import Anthropic from '@anthropic-ai/sdk';
+import type { GenerationOptions, ProviderResponse, TokenUsage } from '@shared/schema';
+import type { ProviderAdapter, ApiKeyTestResult } from './provider-registry';
 
 // Claude service for Grand Central collaborative workspace
 
 const TIMEOUT_MS = 30000; // 30 second timeout
 
-export async function generateResponse(
-  prompt: string,
-  conversationHistory: { role: string; content: string }[],
-  apiKey?: string
-): Promise<string> {
+// Settings store short model names; map them to dated API model ids
+const MODEL_IDS: Record<string, string> = {
+  'claude-3-opus': 'claude-3-opus-20240229',
+  'claude-3-sonnet': 'claude-3-5-sonnet-20241022',
+  'claude-3-haiku': 'claude-3-haiku-20240307'
+};
+const DEFAULT_MODEL = 'claude-3-sonnet';
+
+const SYSTEM_PROMPT = "You are Claude, a helpful AI assistant in a collaborative workspace. Provide thoughtful, relevant responses based on the context and conversation history.";
+
+function createClient(apiKey?: string): Anthropic {
   const key = apiKey || process.env.CLAUDE_API_KEY;
   if (!key) {
     const error = new Error('Claude API key not provided');
     error.name = 'InvalidKeyError';
     throw error;
   }
-  
-  const anthropic = new Anthropic({ 
+
+  return new Anthropic({
     apiKey: key,
     timeout: TIMEOUT_MS
   });
-  
-  const messages: Anthropic.MessageParam[] = [
-    ...conversationHistory.slice(-8).map(msg => ({
+}
+
+function resolveModel(model?: string): string {
+  const name = model || DEFAULT_MODEL;
+  return MODEL_IDS[name] || name;
+}
+
+// Anthropic accepts 0-1, while preferences allow up to 2
+function resolveTemperature(temperature?: number): number | undefined {
+  return temperature === undefined ? undefined : Math.min(temperature, 1);
+}
+
+function buildMessages(
+  prompt: string,
+  conversationHistory: { role: string; content: string }[]
+): Anthropic.MessageParam[] {
+  return [
+    ...conversationHistory.map(msg => ({
       role: msg.role as 'user' | 'assistant',
       content: msg.content
     })),
@@ -31,15 +54,112 @@ export async function generateResponse(
       content: prompt
     }
   ];
+}
+
+export async function generateResponse(
+  prompt: string,
+  conversationHistory: { role: string; content: string }[],
+  apiKey?: string,
+  options: GenerationOptions = {}
+): Promise<ProviderResponse> {
+  const anthropic = createClient(apiKey);
 
   const response = await anthropic.messages.create({
-    model: "claude-3-5-sonnet-20241022",
-    max_tokens: 1000,
-    system: "You are Claude, a helpful AI assistant in a collaborative workspace. Provide thoughtful, relevant responses based on the context and conversation history.",
-    messages
+    model: resolveModel(options.model),
+    max_tokens: options.maxTokens ?? 1000,
+    temperature: resolveTemperature(options.temperature),
+    system: SYSTEM_PROMPT,
+    messages: buildMessages(prompt, conversationHistory)
   });
 
-  return response.content[0]?.type === 'text' 
-    ? response.content[0].text 
-    : "I'm sorry, I couldn't generate a response.";
-}
\ No newline at end of file
+  return {
+    content: response.content[0]?.type === 'text'
+      ? response.content[0].text
+      : "I'm sorry, I couldn't generate a response.",
+    usage: { promptTokens: response.usage.input_tokens, completionTokens: response.usage.output_tokens }
+  };
+}
+
+// Streaming variant - yields text deltas as they arrive
+export async function* streamResponse(
+  prompt: string,
+  conversationHistory: { role: string; content: string }[],
+  apiKey?: string,
+  options: GenerationOptions = {}
+): AsyncGenerator<string, TokenUsage | undefined> {
+  const anthropic = createClient(apiKey);
+
+  const stream = await anthropic.messages.create({
+    model: resolveModel(options.model),
+    max_tokens: options.maxTokens ?? 1000,
+    temperature: resolveTemperature(options.temperature),
+    system: SYSTEM_PROMPT,
+    messages: buildMessages(prompt, conversationHistory),
+    stream: true
+  });
+
+  // Input tokens arrive with message_start, output tokens with the final message_delta
+  const usage: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+  for await (const event of stream) {
+    if (event.type === 'message_start') {
+      usage.promptTokens = event.message.usage.input_tokens;
+    } else if (event.type === 'message_delta') {
+      usage.completionTokens = event.usage.output_tokens;
+    } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+      yield event.delta.text;
+    }
+  }
+  return usage;
+}
+
+// Verify an API key with a minimal request
+export async function testApiKey(apiKey: string): Promise<ApiKeyTestResult> {
+  console.log('Testing Claude API key...');
+  const response = await fetch('https://api.anthropic.com/v1/messages', {
+    method: 'POST',
+    headers: {
+      'x-api-key': apiKey,
+      'Content-Type': 'application/json',
+      'anthropic-version': '2023-06-01'
+    },
+    body: JSON.stringify({
+      model: 'claude-3-haiku-20240307',
+      max_tokens: 5,
+      messages: [{ role: 'user', content: 'test' }]
+    })
+  });
+
+  console.log('Claude API response status:', response.status);
+
+  if (response.ok) {
+    console.log('Claude API test successful');
+    return { success: true, error: null, model: 'claude-3-haiku' };
+  }
+  const errorData = await response.json().catch(() => null);
+  console.log('Claude API test failed:', response.status, errorData);
+  return { success: false, error: errorData?.error?.message || `API key test failed (${response.status})`, model: null };
+}
+
+export const claudeProvider: ProviderAdapter = {
+  id: 'claude',
+  sender: 'claude',
+  label: 'Claude',
+  vendor: 'Claude',
+  settingsKey: 'anthropic',
+  color: 'hsl(var(--claude))',
+  foreground: 'hsl(var(--claude-foreground))',
+  icon: 'Brain',
+  keyPlaceholder: 'sk-ant-...',
+  models: [
+    { value: 'claude-3-opus', label: 'Claude 3 Opus' },
+    { value: 'claude-3-sonnet', label: 'Claude 3 Sonnet' },
+    { value: 'claude-3-haiku', label: 'Claude 3 Haiku' }
+  ],
+  defaultModel: DEFAULT_MODEL,
+  contextWindow: 200000,
+  charsPerToken: 3.5,
+  instructions: "Focus on patterns and deeper connections.",
+  generateResponse,
+  streamResponse,
+  testApiKey
+};
@@ -1,22 +1,23 @@
+import type { CompanionAnnouncement, InsertMessage, MessageMetadata } from "@shared/schema";
 import { storage } from "../storage";
+import { trackMetric } from "./metrics";
 
-// Helper function to create companion announcements
-function createCompanionAnnouncement(type: string, context: any): any {
-  const messages = {
+// Helper function to create companion announcements, ready for storage.createMessage
+export function createCompanionAnnouncement(type: CompanionAnnouncement, context: any): InsertMessage {
+  const messages: Record<CompanionAnnouncement, string> = {
     breathIncrement: `💨 Breath #${context.breathCount} completed. The conversation deepens.`,
     patternComplete: `✨ Pattern "${context.pattern}" has fulfilled itself. Wisdom absorbed.`,
     patternDissolved: `🌫️ Pattern "${context.pattern}" dissolves back into the field of possibility.`,
     phaseTransition: `🌀 Transition: ${context.prevPhase} → ${context.newPhase}. A new state emerges.`,
   };
   
+  const metadata: MessageMetadata = { announcement: type };
   return {
-    id: `companion-announce-${Date.now()}`,
     discussionId: context.discussionId,
-    content: messages[type as keyof typeof messages] || `🧠 ${type}`,
+    content: messages[type],
     sender: 'companion',
     llmProvider: 'companion',
-    createdAt: new Date().toISOString(),
-    isAnnouncement: true
+    metadata
   };
 }
 
@@ -24,7 +25,7 @@ function createCompanionAnnouncement(type: string, context: any): any {
 export class SimpleCompanionService {
   
   // Phase 2: Semantic Pattern Detection using semantic memory
-  async monitorDiscussion(discussionId: string, newMessage: any): Promise<any> {
+  async monitorDiscussion(userId: string, discussionId: string, newMessage: any): Promise<any> {
     try {
       // Get recent messages for pattern analysis
       const recentMessages = await storage.getMessagesByDiscussion(discussionId);
@@ -33,52 +34,64 @@ export class SimpleCompanionService {
       // Skip if not enough messages
       if (messages.length < 3) return null;
       
-      // Get settings
-      const settings = await storage.getSettings();
+      // Get the discussion owner's settings
+      const settings = await storage.getSettings(userId);
       const companionConfig = (settings as any)?.companionConfig;
       
       if (!companionConfig?.enabled) return null;
       
       console.log(`[Companion] Monitoring ${discussionId}: ${messages.length} recent messages`);
       
-      // Phase 2: Use semantic memory for pattern detection
-      const openaiKey = (settings as any)?.apiKeys?.openai?.key;
-      if (openaiKey && messages.length >= 3) {
-        const { findPatterns } = await import('./semantic-memory');
+      // Phase 2: Use semantic memory for pattern detection (local embeddings when no provider is configured)
+      if (messages.length >= 3) {
+        const { findPatterns, getMemoryTags, getScopeFilter, getPatternSettings } = await import('./semantic-memory');
+        const { getEmbeddingProvider } = await import('./embeddings');
+        const { patternScope, patternThreshold, minPatternMatches, patternLabels } = getPatternSettings(companionConfig);
+        const discussion = await storage.getDiscussion(discussionId);
+        const memoryTags = discussion ? await getMemoryTags(discussion) : { discussionId };
         
         // Get last 3 messages for semantic analysis
         const lastThree = messages.slice(-3);
         const combinedContent = lastThree.map(m => m.content).join(' ');
         
-        // Search for semantic patterns
+        // Search for semantic patterns within the configured scope
         const similar = await findPatterns(
           combinedContent,
-          openaiKey,
-          0.8, // 80% semantic similarity threshold
-          5
+          getEmbeddingProvider((settings as any)?.apiKeys),
+          patternThreshold,
+          Math.max(5, minPatternMatches),
+          getScopeFilter(memoryTags, patternScope, userId)
         );
         
-        console.log(`[Companion] Found ${similar.length} semantic matches`);
+        console.log(`[Companion] Found ${similar.length} semantic matches (${patternScope} scope)`);
         
-        // Pattern detected if we find 2+ similar memories (lowered from 3 for consistency)
-        if (similar.length >= 2 && companionConfig.autoSuggest) {
-          // Extract topic from similar patterns
-          const topic = this.detectTopicFromPatterns(similar);
+        // Pattern detected once enough similar memories are found
+        if (similar.length >= minPatternMatches && companionConfig.autoSuggest) {
+          // Cluster the matches and name each cluster; the best-supported one is the suggestion topic
+          const { labelPatterns } = await import('./pattern-labels');
+          const detections = await labelPatterns(similar, {
+            threshold: patternThreshold,
+            source: patternLabels,
+            settings,
+            existingLabels: (discussion?.detectedPatterns as string[]) || [],
+            messageIds: lastThree.map(m => m.id),
+            tags: { discussionId, projectId: discussion?.projectId }
+          });
+          const [strongest] = [...detections].sort((a, b) => b.messageIds.length - a.messageIds.length || b.score - a.score);
+          const topic = strongest?.label || 'this topic';
           const confidence = similar.length / 3;
           
           console.log(`[Companion] Pattern detected: ${topic} (confidence: ${confidence.toFixed(2)})`);
           
           // Update discussion breathing context
-          const discussion = await storage.getDiscussion(discussionId);
           if (discussion) {
+            // The pattern lifecycle pass for this message already ran in processResponses
             const newBreathCount = (discussion.breathCount || 0) + 1;
-            const patterns = Array.from(new Set(similar.flatMap((p: any) => p.metadata?.patterns || [topic])));
             
-            console.log(`[Companion] Updating discussion - Breath #${newBreathCount}, Patterns:`, patterns);
+            console.log(`[Companion] Updating discussion - Breath #${newBreathCount}, Patterns:`, detections.map(p => p.label));
             
             await storage.updateDiscussion(discussionId, {
-              breathCount: newBreathCount,
-              detectedPatterns: patterns.length > 0 ? patterns : [topic]
+              breathCount: newBreathCount
             });
             
             console.log(`[Companion] Discussion breathing context updated`);
@@ -90,6 +103,9 @@ export class SimpleCompanionService {
             });
             
             await storage.createMessage(breathAnnouncement);
+
+            const { advancePhase } = await import('./phase-engine');
+            await advancePhase(discussionId);
           }
           
           const suggestion = {
@@ -106,7 +122,7 @@ export class SimpleCompanionService {
           };
           
           // Save suggestion
-          await storage.addCompanionSuggestion(suggestion);
+          await storage.addCompanionSuggestion(userId, suggestion);
           
           // Return as a companion message to display in chat
           return {
@@ -145,21 +161,6 @@ export class SimpleCompanionService {
     }
   }
   
-  // Extract topic from semantic patterns
-  private detectTopicFromPatterns(patterns: any[]): string {
-    // Get the most common words from pattern metadata
-    const allPatterns = patterns.flatMap(p => p.metadata.patterns || []);
-    const uniquePatterns = Array.from(new Set(allPatterns));
-    
-    if (uniquePatterns.length > 0) {
-      return uniquePatterns[0];
-    }
-    
-    // Fallback: extract key words from content
-    const words = patterns[0].content.toLowerCase().split(/\s+/).filter((w: string) => w.length > 4);
-    return words[0] || 'this topic';
-  }
-  
   private generateSimpleInsight(messageCount: number, topTopics: [string, number][]): string {
     const topics = topTopics.slice(0,2).map(([topic]) => topic).join(' and ');
     
@@ -171,32 +172,39 @@ export class SimpleCompanionService {
   }
   
   // Simple agent creation (same as before)
-  async createAgentFromSuggestion(suggestionId: string, userApproval: boolean) {
+  async createAgentFromSuggestion(userId: string, suggestionId: string, userApproval: boolean) {
     if (!userApproval) return { success: false, message: 'Agent creation cancelled by user' };
 
     try {
-      const companion = await storage.getCompanionData();
+      const companion = await storage.getCompanionData(userId);
       const suggestion = companion?.suggestions?.find((s: any) => s.id === suggestionId);
       
       if (!suggestion) {
         return { success: false, message: 'Suggestion not found' };
       }
 
+      // The agent starts in its discussion's current phase and follows later transitions
+      const parentDiscussion = suggestion.discussionId ? await storage.getDiscussion(suggestion.discussionId) : undefined;
       const agentData = {
         name: suggestion.agent_template.name,
         description: suggestion.agent_template.focus,
-        currentMode: 'plasma' as const,
+        currentMode: parentDiscussion?.currentPhase || 'plasma',
         llmProvider: 'claude' as const,
         systemPrompt: suggestion.agent_template.system_prompt,
         createdBy: 'companion',
-        parentDiscussion: suggestion.discussionId
+        parentDiscussion: suggestion.discussionId,
+        ownerId: userId
       };
 
       // Create the agent in the agents table
       const newAgent = await storage.createAgent(agentData);
+      await trackMetric(
+        'agent_created', 1, { agentId: newAgent.id, suggestionId },
+        parentDiscussion?.id, parentDiscussion?.projectId
+      );
 
       // Also add to companion observations for tracking
-      await storage.addCompanionObservation({
+      await storage.addCompanionObservation(userId, {
         type: 'agent_created',
         agent: newAgent,
         timestamp: new Date().toISOString()
@@ -1,5 +1,6 @@
 import { storage } from "../storage";
 import { generateLLMResponse } from "./llm-router";
+import { resolveGenerationOptions } from "./generation-options";
 
 // Pattern recognition system
 interface PatternAnalysis {
@@ -22,8 +23,8 @@ interface PatternAnalysis {
 // Companion monitoring service
 export class CompanionService {
   // FIXED: Fast incremental monitoring that only analyzes recent messages
-  async monitorDiscussion(discussionId: string, newMessage: any): Promise<any> {
-    const settings = await storage.getSettings();
+  async monitorDiscussion(userId: string, discussionId: string, newMessage: any): Promise<any> {
+    const settings = await storage.getSettings(userId);
     const companionConfig = (settings as any)?.companionConfig;
     
     if (!companionConfig?.enabled || companionConfig.monitoringLevel === 'none') {
@@ -41,7 +42,7 @@ export class CompanionService {
     if (quickPattern.shouldSuggest && companionConfig.autoSuggest) {
       console.log('Creating agent suggestion for topic:', quickPattern.topic);
       const suggestion = await this.createQuickSuggestion(quickPattern, discussionId);
-      await storage.addCompanionSuggestion(suggestion);
+      await storage.addCompanionSuggestion(userId, suggestion);
       return suggestion;
     }
 
@@ -201,7 +202,7 @@ export class CompanionService {
     return messages.length % 6 === 0;
   }
 
-  private async generateCompanionResponse(messages: any[], patterns: PatternAnalysis, companionConfig: any) {
+  private async generateCompanionResponse(userId: string, messages: any[], patterns: PatternAnalysis, companionConfig: any) {
     // Build context for companion response
     const context = `
     Recent conversation analysis:
@@ -223,15 +224,15 @@ export class CompanionService {
 
     try {
       // Use OpenAI for companion responses (fallback to Claude if needed)
-      const settings = await storage.getSettings();
+      const settings = await storage.getSettings(userId);
       const openaiKey = (settings as any)?.apiKeys?.openai?.key;
       const claudeKey = (settings as any)?.apiKeys?.anthropic?.key;
       
       let response;
       if (openaiKey) {
-        response = await generateLLMResponse('openai', companionPrompt, [], [], openaiKey);
+        response = await generateLLMResponse('openai', companionPrompt, {}, openaiKey, resolveGenerationOptions('openai', { settings }));
       } else if (claudeKey) {
-        response = await generateLLMResponse('claude', companionPrompt, [], [], claudeKey);
+        response = await generateLLMResponse('claude', companionPrompt, {}, claudeKey, resolveGenerationOptions('claude', { settings }));
       } else {
         // Fallback static response
         response = "I've been observing your conversation and notice some interesting patterns. Would you like me to suggest some improvements or create a specialized agent for this topic?";
@@ -253,11 +254,11 @@ export class CompanionService {
   }
 
   // Agent creation from suggestions
-  async createAgentFromSuggestion(suggestionId: string, userApproval: boolean) {
+  async createAgentFromSuggestion(userId: string, suggestionId: string, userApproval: boolean) {
     if (!userApproval) return { success: false, message: 'Agent creation cancelled by user' };
 
     try {
-      const companion = await storage.getCompanionData();
+      const companion = await storage.getCompanionData(userId);
       const suggestion = companion?.suggestions?.find((s: any) => s.id === suggestionId);
       
       if (!suggestion) {
@@ -276,7 +277,7 @@ export class CompanionService {
       };
 
       // Store in companion memory
-      await storage.addCompanionObservation({
+      await storage.addCompanionObservation(userId, {
         type: 'agent_created',
         agent: newAgent,
         timestamp: new Date().toISOString()
@@ -0,0 +1,191 @@
+import {
+  type Message,
+  type ContextItem,
+  type ContextEntry,
+  type ContextReport,
+  type DiscussionPhase,
+  type GenerationOptions,
+  type HistorySummary
+} from "@shared/schema";
+import type { ConversationTurn, ProviderAdapter } from "./provider-registry";
+import {
+  DEFAULT_HISTORY_MESSAGES,
+  DEFAULT_HISTORY_TOKENS,
+  estimateTokens,
+  getHistoryMessages,
+  mergeTurns,
+  toTurn
+} from "./conversation-history";
+
+// Token-aware context builder. Fills each provider's prompt in priority order:
+// role instructions, pinned context and the user input always; then recent turns,
+// the rolling summary of older turns, and finally unpinned files/links while they fit.
+
+const DEFAULT_CONTEXT_WINDOW = 8192;
+const DEFAULT_RESPONSE_TOKENS = 1000;
+
+export interface ConversationInput {
+  messages?: Message[]; // Earlier discussion messages, oldest first, not including the current input
+  contextItems?: ContextItem[]; // Project files and links
+  globalContext?: any[]; // Global files, URLs and instructions
+  summary?: HistorySummary | null;
+  instructions?: string; // Phase-specific role instructions; defaults to the adapter's own
+  phase?: DiscussionPhase; // Phase the instructions were rendered for
+}
+
+export interface ProviderContext {
+  fullPrompt: string;
+  conversationHistory: ConversationTurn[];
+  report: ContextReport;
+}
+
+interface ContextPiece {
+  entry: ContextEntry;
+  text: string;
+  scope: 'global' | 'local';
+}
+
+function formatGlobalItem(item: any): string {
+  switch (item.type) {
+    case 'file':
+      return `File "${item.metadata?.fileName || 'Uploaded File'}":\n${item.content}`;
+    case 'url':
+      return `Reference URL: ${item.content}`;
+    case 'instruction':
+      return `Global Instructions: ${item.content}`;
+    default:
+      return `${item.type}: ${item.content}`;
+  }
+}
+
+function labelGlobalItem(item: any): string {
+  switch (item.type) {
+    case 'file':
+      return item.metadata?.fileName || 'Uploaded File';
+    case 'instruction':
+      return 'Global instructions';
+    default:
+      return item.content;
+  }
+}
+
+function formatLocalItem(item: ContextItem): string {
+  return item.type === 'file'
+    ? `File "${item.name}":\n${item.content}`
+    : `Link "${item.name}": ${item.content}`;
+}
+
+// Global instructions are always pinned; other items can be pinned via metadata.pinned
+function isPinned(item: any): boolean {
+  return item.type === 'instruction' || !!item.metadata?.pinned;
+}
+
+export function buildProviderContext(
+  adapter: ProviderAdapter,
+  userInput: string,
+  conversation: ConversationInput,
+  options: GenerationOptions = {}
+): ProviderContext {
+  const { messages = [], contextItems = [], globalContext = [], summary, phase } = conversation;
+  const estimate = (text: string) => estimateTokens(text, adapter.charsPerToken);
+
+  const budget = Math.max(
+    0,
+    (adapter.contextWindow || DEFAULT_CONTEXT_WINDOW) - (options.maxTokens ?? DEFAULT_RESPONSE_TOKENS)
+  );
+  const included: ContextEntry[] = [];
+  const dropped: ContextEntry[] = [];
+  let used = 0;
+
+  const include = (entry: ContextEntry) => {
+    included.push(entry);
+    used += entry.tokens;
+  };
+  const fits = (tokens: number) => used + tokens <= budget;
+
+  // 1. Always included: role instructions, pinned context and the user input
+  const instructions = conversation.instructions ?? adapter.instructions;
+  const roleString = instructions ? `Your role: ${instructions}\n\n` : '';
+  if (roleString) {
+    const label = phase ? `Role instructions (${phase})` : 'Role instructions';
+    include({ kind: 'instructions', label, tokens: estimate(roleString) });
+  }
+
+  const makePiece = (label: string, text: string, scope: ContextPiece['scope'], pinned: boolean): ContextPiece => ({
+    entry: { kind: pinned ? 'pinned' : 'context', label, tokens: estimate(text) },
+    text,
+    scope
+  });
+  const pieces: ContextPiece[] = [
+    ...globalContext.map(item => makePiece(labelGlobalItem(item), formatGlobalItem(item), 'global', isPinned(item))),
+    ...contextItems.map(item => makePiece(item.name, formatLocalItem(item), 'local', isPinned(item)))
+  ];
+
+  const selected = new Set<ContextPiece>();
+  for (const piece of pieces.filter(p => p.entry.kind === 'pinned')) {
+    include(piece.entry);
+    selected.add(piece);
+  }
+
+  const inputString = `User: ${userInput}`;
+  include({ kind: 'input', label: 'User message', tokens: estimate(inputString) });
+
+  // 2. Recent turns, newest first, within the history limits and the remaining budget
+  const summarizedCount = summary?.messageCount || 0;
+  const unsummarized = getHistoryMessages(messages.slice(summarizedCount));
+  const maxMessages = options.historyMessages ?? DEFAULT_HISTORY_MESSAGES;
+  const historyBudget = options.historyTokens ?? DEFAULT_HISTORY_TOKENS;
+  const candidates = maxMessages > 0 ? unsummarized.slice(-maxMessages) : [];
+
+  const turns: ConversationTurn[] = [];
+  let historyTokens = 0;
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    const turn = toTurn(candidates[i], adapter.id);
+    const tokens = estimate(turn.content);
+    if (historyTokens + tokens > historyBudget || !fits(historyTokens + tokens)) break;
+    historyTokens += tokens;
+    turns.unshift(turn);
+  }
+
+  if (turns.length > 0) {
+    include({ kind: 'history', label: `${turns.length} recent messages`, tokens: historyTokens });
+  }
+  const droppedTurns = unsummarized.length - turns.length;
+  if (droppedTurns > 0) {
+    dropped.push({ kind: 'history', label: `${droppedTurns} older messages`, tokens: 0 });
+  }
+
+  // 3. Rolling summary of the turns before that
+  let summaryString = '';
+  if (summary?.content) {
+    const text = `Summary of earlier discussion:\n${summary.content}\n\n`;
+    const entry: ContextEntry = { kind: 'summary', label: `Summary of ${summary.messageCount} earlier messages`, tokens: estimate(text) };
+    if (fits(entry.tokens)) {
+      include(entry);
+      summaryString = text;
+    } else {
+      dropped.push(entry);
+    }
+  }
+
+  // 4. Unpinned files and links, in order, while they fit
+  for (const piece of pieces.filter(p => p.entry.kind === 'context')) {
+    if (fits(piece.entry.tokens)) {
+      include(piece.entry);
+      selected.add(piece);
+    } else {
+      dropped.push(piece.entry);
+    }
+  }
+
+  const globalTexts = pieces.filter(p => p.scope === 'global' && selected.has(p)).map(p => p.text);
+  const localTexts = pieces.filter(p => p.scope === 'local' && selected.has(p)).map(p => p.text);
+  const globalContextString = globalTexts.length > 0 ? `Global Context:\n${globalTexts.join('\n\n')}\n\n` : '';
+  const localContextString = localTexts.length > 0 ? `Discussion Context:\n${localTexts.join('\n\n')}\n\n` : '';
+
+  return {
+    fullPrompt: `${roleString}${summaryString}${globalContextString}${localContextString}${inputString}`,
+    conversationHistory: mergeTurns(turns),
+    report: { provider: adapter.id, budget, used, included, dropped }
+  };
+}
@@ -0,0 +1,46 @@
+import { type Message } from "@shared/schema";
+import { getProvider, type ConversationTurn } from "./provider-registry";
+import { isDegraded } from "./relay";
+
+// Conversation history - turns a discussion's stored messages into the history a
+// given provider sees: its own replies as `assistant`, everything else as `user`
+
+export const DEFAULT_HISTORY_MESSAGES = 20;
+export const DEFAULT_HISTORY_TOKENS = 4000;
+
+// Rough estimate - good enough for budgeting. Most tokenizers average ~4 characters per token.
+export function estimateTokens(text: string, charsPerToken = 4): number {
+  return Math.ceil(text.length / charsPerToken);
+}
+
+// Messages worth sending as history (degraded placeholders carry no content)
+export function getHistoryMessages(messages: Message[]): Message[] {
+  return messages.filter(message => !isDegraded(message));
+}
+
+export function toTurn(message: Message, provider: string): ConversationTurn {
+  if (message.sender === 'user') {
+    return { role: 'user', content: message.content };
+  }
+  if (message.llmProvider === provider) {
+    return { role: 'assistant', content: message.content };
+  }
+
+  // Other models' replies are attributed so the provider can tell who said what
+  const label = getProvider(message.llmProvider || '')?.label || message.sender;
+  return { role: 'user', content: `[${label}]: ${message.content}` };
+}
+
+// Merge consecutive turns with the same role and make sure history opens with the user
+export function mergeTurns(turns: ConversationTurn[]): ConversationTurn[] {
+  const merged: ConversationTurn[] = [];
+  for (const turn of turns) {
+    const last = merged[merged.length - 1];
+    if (last && last.role === turn.role) {
+      last.content += `\n\n${turn.content}`;
+    } else if (merged.length > 0 || turn.role === 'user') {
+      merged.push({ ...turn });
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,82 @@
+import { type CustomProviderConfig, type GenerationOptions } from "@shared/schema";
+import type { ProviderAdapter, ApiKeyTestResult } from "./provider-registry";
+import { createChatCompletion, streamChatCompletion } from "./openai-compatible";
+
+// Custom provider service - wraps a user-defined OpenAI-compatible endpoint as a ProviderAdapter
+
+const INSTRUCTIONS = "Offer an independent perspective and be concise.";
+
+export function getCustomProviderId(config: CustomProviderConfig): string {
+  return `custom-${config.id}`;
+}
+
+export function createCustomProvider(config: CustomProviderConfig): ProviderAdapter {
+  const buildMessages = (
+    prompt: string,
+    conversationHistory: { role: string; content: string }[]
+  ) => [
+    {
+      role: 'system',
+      content: `You are ${config.name}, a helpful AI assistant in a collaborative workspace. Provide thoughtful, relevant responses based on the context and conversation history.`
+    },
+    ...conversationHistory.map(msg => ({
+      role: msg.role,
+      content: msg.content
+    })),
+    {
+      role: 'user',
+      content: prompt
+    }
+  ];
+
+  const request = (
+    messages: { role: string; content: string }[],
+    apiKey?: string,
+    options: GenerationOptions = {}
+  ) => ({
+    baseUrl: options.endpoint || config.baseUrl,
+    apiKey: apiKey || config.key,
+    headers: config.headers,
+    model: options.model || config.model,
+    messages,
+    maxTokens: options.maxTokens,
+    temperature: options.temperature
+  });
+
+  async function testApiKey(apiKey: string, options: GenerationOptions = {}): Promise<ApiKeyTestResult> {
+    try {
+      const test = request([{ role: 'user', content: 'test' }], apiKey, options);
+      await createChatCompletion({ ...test, maxTokens: 5 });
+      return { success: true, error: null, model: test.model };
+    } catch (error: any) {
+      return { success: false, error: error.message || 'Endpoint test failed', model: null };
+    }
+  }
+
+  const id = getCustomProviderId(config);
+
+  return {
+    id,
+    sender: id,
+    label: config.name,
+    vendor: config.name,
+    settingsKey: id,
+    color: config.color,
+    foreground: 'hsl(0, 0%, 100%)',
+    icon: 'Server',
+    keyPlaceholder: 'optional',
+    models: [{ value: config.model, label: config.model }],
+    defaultModel: config.model,
+    defaultEndpoint: config.baseUrl,
+    contextWindow: config.contextWindow,
+    pricing: config.pricing,
+    custom: true,
+    apiKey: config.key,
+    instructions: INSTRUCTIONS,
+    generateResponse: (prompt, conversationHistory, apiKey, options) =>
+      createChatCompletion(request(buildMessages(prompt, conversationHistory), apiKey, options)),
+    streamResponse: (prompt, conversationHistory, apiKey, options) =>
+      streamChatCompletion(request(buildMessages(prompt, conversationHistory), apiKey, options)),
+    testApiKey
+  };
+}
@@ -0,0 +1,107 @@
+import { type Message, type MessageMetadata } from "@shared/schema";
+import { getProvider } from "./provider-registry";
+import { isDegraded } from "./relay";
+
+// Debate mode - enabled providers argue over several rounds, rebutting each other,
+// then a judge model synthesizes a consensus answer with the remaining disagreements
+
+type DebateCall = { provider: string; sender: string };
+
+function labelOf(message: Message): string {
+  return getProvider(message.llmProvider || '')?.label || message.sender;
+}
+
+function formatAnswers(messages: Message[]): string {
+  return messages.map(message => `[${labelOf(message)}]:\n${message.content}`).join('\n\n');
+}
+
+export function buildArgumentPrompt(
+  userInput: string,
+  round: number,
+  rounds: number,
+  ownPrevious: Message | undefined,
+  othersPrevious: Message[]
+): string {
+  if (round === 1 || othersPrevious.length === 0) {
+    return `${userInput}
+
+This is round ${round} of ${rounds} of a structured debate between several AI models. State your position clearly and support it with concrete reasoning.`;
+  }
+
+  return `${userInput}
+
+This is round ${round} of ${rounds} of a structured debate between several AI models.
+${ownPrevious ? `\nYour previous answer:\n${ownPrevious.content}\n` : ''}
+The other participants argued:
+
+${formatAnswers(othersPrevious)}
+
+Rebut the points you disagree with, concede the ones that are right, and refine your position. Be specific and do not restate your earlier answer.`;
+}
+
+export function buildSynthesisPrompt(userInput: string, transcript: Message[]): string {
+  const rounds = new Map<number, Message[]>();
+  for (const message of transcript) {
+    const round = (message.metadata as MessageMetadata)?.round || 1;
+    rounds.set(round, [...(rounds.get(round) || []), message]);
+  }
+
+  const debate = Array.from(rounds.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([round, messages]) => `## Round ${round}\n\n${formatAnswers(messages)}`)
+    .join('\n\n');
+
+  return `${userInput}
+
+You are the judge of the following debate between AI models:
+
+${debate}
+
+Write the best consensus answer to the original question, drawing on the strongest arguments. Then add a section titled "Points of disagreement" that lists, explicitly, where the participants still disagree and which position you find more convincing.`;
+}
+
+// Run the debate rounds (each round in parallel) and the final synthesis.
+// Returns every saved message in order; failed turns are skipped.
+export async function runDebate<T extends DebateCall>(
+  userInput: string,
+  calls: T[],
+  judge: T,
+  rounds: number,
+  runCall: (call: T, prompt: string, metadata: MessageMetadata) => Promise<Message | undefined>
+): Promise<Message[]> {
+  const transcript: Message[] = [];
+  let previousRound: Message[] = [];
+
+  for (let round = 1; round <= rounds; round++) {
+    const results = await Promise.allSettled(calls.map(call => {
+      const answers = previousRound.filter(message => !isDegraded(message));
+      const ownPrevious = answers.find(message => message.sender === call.sender);
+      const othersPrevious = answers.filter(message => message.sender !== call.sender);
+      return runCall(
+        call,
+        buildArgumentPrompt(userInput, round, rounds, ownPrevious, othersPrevious),
+        { round, debateRole: 'argument' }
+      );
+    }));
+
+    previousRound = results
+      .filter((result): result is PromiseFulfilledResult<Message> => result.status === 'fulfilled' && !!result.value)
+      .map(result => result.value);
+    transcript.push(...previousRound);
+  }
+
+  if (!transcript.some(message => !isDegraded(message))) {
+    return transcript;
+  }
+
+  try {
+    const synthesis = await runCall(judge, buildSynthesisPrompt(userInput, transcript.filter(message => !isDegraded(message))), { debateRole: 'synthesis' });
+    if (synthesis) {
+      transcript.push(synthesis);
+    }
+  } catch (error) {
+    console.error(`[Debate] Judge ${judge.provider} failed:`, error);
+  }
+
+  return transcript;
+}
@@ -1,56 +1,120 @@
 // DeepSeek service for multi-LLM responses
 
+import type { GenerationOptions, ProviderResponse, TokenUsage } from '@shared/schema';
+import type { ProviderAdapter, ApiKeyTestResult } from './provider-registry';
+import { createChatCompletion, streamChatCompletion } from './openai-compatible';
+
 const DEEPSEEK_API_BASE = 'https://api.deepseek.com';
+const DEFAULT_MODEL = 'deepseek-chat';
 
 // DeepSeek service for Grand Central collaborative workspace
 
+function buildMessages(
+  prompt: string,
+  conversationHistory: { role: string; content: string }[]
+) {
+  return [
+    {
+      role: 'system',
+      content: "You are DeepSeek, a helpful AI assistant in a collaborative workspace. Provide thoughtful, relevant responses based on the context and conversation history."
+    },
+    ...conversationHistory.map(msg => ({
+      role: msg.role,
+      content: msg.content
+    })),
+    {
+      role: 'user',
+      content: prompt
+    }
+  ];
+}
+
 export async function generateResponse(
   prompt: string,
   conversationHistory: { role: string; content: string }[],
-  apiKey?: string
-): Promise<string> {
+  apiKey?: string,
+  options: GenerationOptions = {}
+): Promise<ProviderResponse> {
   const key = apiKey || process.env.DEEPSEEK_API_KEY;
   if (!key) {
     throw new Error('DeepSeek API key not provided');
   }
   try {
-    const messages = [
-      {
-        role: 'system',
-        content: "You are DeepSeek, a helpful AI assistant in a collaborative workspace. Provide thoughtful, relevant responses based on the context and conversation history."
-      },
-      ...conversationHistory.slice(-8).map(msg => ({
-        role: msg.role,
-        content: msg.content
-      })),
-      {
-        role: 'user',
-        content: prompt
-      }
-    ];
-
-    const response = await fetch(`${DEEPSEEK_API_BASE}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${key}`
-      },
-      body: JSON.stringify({
-        model: "deepseek-chat",
-        messages,
-        max_tokens: 1000,
-        temperature: 0.7
-      })
+    return await createChatCompletion({
+      baseUrl: options.endpoint || DEEPSEEK_API_BASE,
+      apiKey: key,
+      model: options.model || DEFAULT_MODEL,
+      messages: buildMessages(prompt, conversationHistory),
+      maxTokens: options.maxTokens,
+      temperature: options.temperature
     });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    const data = await response.json();
-    return data.choices?.[0]?.message?.content || "I'm sorry, I couldn't generate a response.";
   } catch (error) {
     console.error('DeepSeek API error:', error);
-    return "I encountered an error while generating a response. Please try again.";
+    return { content: "I encountered an error while generating a response. Please try again." };
   }
-}
\ No newline at end of file
+}
+
+// Streaming variant - unlike generateResponse, errors are thrown so the router can retry/fallback
+export async function* streamResponse(
+  prompt: string,
+  conversationHistory: { role: string; content: string }[],
+  apiKey?: string,
+  options: GenerationOptions = {}
+): AsyncGenerator<string, TokenUsage | undefined> {
+  const key = apiKey || process.env.DEEPSEEK_API_KEY;
+  if (!key) {
+    throw new Error('DeepSeek API key not provided');
+  }
+
+  return yield* streamChatCompletion({
+    baseUrl: options.endpoint || DEEPSEEK_API_BASE,
+    apiKey: key,
+    model: options.model || DEFAULT_MODEL,
+    messages: buildMessages(prompt, conversationHistory),
+    maxTokens: options.maxTokens,
+    temperature: options.temperature
+  });
+}
+
+// Verify an API key with a minimal request to the endpoint generation uses
+export async function testApiKey(apiKey: string, options: GenerationOptions = {}): Promise<ApiKeyTestResult> {
+  const model = options.model || DEFAULT_MODEL;
+  const response = await fetch(`${(options.endpoint || DEEPSEEK_API_BASE).replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      model,
+      messages: [{ role: 'user', content: 'test' }],
+      max_tokens: 5
+    })
+  });
+
+  if (response.ok) {
+    return { success: true, error: null, model };
+  }
+  const errorData = await response.json().catch(() => null);
+  return { success: false, error: errorData?.error?.message || 'API key test failed', model: null };
+}
+
+export const deepseekProvider: ProviderAdapter = {
+  id: 'deepseek',
+  sender: 'deepseek',
+  label: 'DeepSeek',
+  vendor: 'DeepSeek',
+  settingsKey: 'deepseek',
+  color: 'hsl(var(--deepseek))',
+  foreground: 'hsl(var(--deepseek-foreground))',
+  icon: 'Search',
+  keyPlaceholder: 'sk-...',
+  models: [],
+  defaultModel: DEFAULT_MODEL,
+  defaultEndpoint: DEEPSEEK_API_BASE,
+  contextWindow: 64000,
+  instructions: "Analyze critically and suggest alternatives.",
+  generateResponse,
+  streamResponse,
+  testApiKey
+};
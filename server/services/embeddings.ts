@@ -0,0 +1,111 @@
+import OpenAI from 'openai';
+import { embeddingConfigSchema } from '@shared/schema';
+import { createEmbedding } from './openai-compatible';
+
+// Embedding providers for semantic memory: OpenAI, any OpenAI-compatible /embeddings
+// endpoint, or a built-in hashed bag-of-words embedder that needs no network at all
+
+export interface EmbeddingProvider {
+  id: 'openai' | 'compatible' | 'local';
+  model: string; // stored with each memory; embeddings from different models are never compared
+  embed(input: string): Promise<number[]>;
+}
+
+const OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small';
+const LOCAL_DIMENSIONS = 512;
+
+function openaiEmbeddings(apiKey: string, model = OPENAI_EMBEDDING_MODEL): EmbeddingProvider {
+  return {
+    id: 'openai',
+    model,
+    async embed(input) {
+      const openai = new OpenAI({ apiKey });
+      const embeddingResponse = await openai.embeddings.create({ model, input });
+      return embeddingResponse.data[0].embedding;
+    }
+  };
+}
+
+function compatibleEmbeddings(baseUrl: string, model: string, apiKey?: string): EmbeddingProvider {
+  return {
+    id: 'compatible',
+    model,
+    embed: (input) => createEmbedding({ baseUrl, apiKey, model, input })
+  };
+}
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'can', 'has', 'had', 'was', 'one', 'our', 'out',
+  'this', 'that', 'with', 'have', 'from', 'they', 'will', 'would', 'there', 'their', 'what', 'about',
+  'which', 'when', 'your', 'been', 'were', 'into', 'than', 'then', 'them', 'these', 'some', 'could',
+  'also', 'its', 'just', 'more', 'very', 'here', 'such', 'only', 'other', 'should', 'how', 'any'
+]);
+
+// Runs of letters or digits in any script (built with RegExp because the compile target predates the u flag)
+const WORD = new RegExp('[\\p{L}\\p{N}]+', 'gu');
+
+// FNV-1a, 32 bit
+function hash(feature: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    h ^= feature.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// Lower-cased words longer than two letters, stop words removed
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(WORD) ?? []).filter(word => word.length > 2 && !STOP_WORDS.has(word));
+}
+
+// Feature-hashed unigrams and bigrams with log-scaled term frequency, L2-normalised.
+// Cosine scores run lower than with neural embeddings, so a lower pattern threshold suits it.
+export function hashEmbedding(text: string, dimensions = LOCAL_DIMENSIONS): number[] {
+  const words = tokenize(text);
+  const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+
+  const counts = new Map<string, number>();
+  for (const feature of features) {
+    counts.set(feature, (counts.get(feature) || 0) + 1);
+  }
+
+  const vector = new Array<number>(dimensions).fill(0);
+  counts.forEach((count, feature) => {
+    const h = hash(feature);
+    // The top bit picks a sign so colliding features tend to cancel out rather than add up
+    vector[h % dimensions] += (h & 0x80000000 ? -1 : 1) * (1 + Math.log(count));
+  });
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
+
+export const localEmbeddings: EmbeddingProvider = {
+  id: 'local',
+  model: `local-hash-${LOCAL_DIMENSIONS}`,
+  embed: async (input) => hashEmbedding(input)
+};
+
+// Pick the embedding provider from the saved API settings. Misconfigured choices fall
+// back to the local embedder so pattern detection keeps running.
+export function getEmbeddingProvider(apiKeys: any): EmbeddingProvider {
+  const parsed = embeddingConfigSchema.safeParse(apiKeys?.embeddings ?? {});
+  const config = parsed.success ? parsed.data : embeddingConfigSchema.parse({});
+  const openaiKey: string | undefined = apiKeys?.openai?.key;
+
+  switch (config.provider) {
+    case 'openai':
+      if (openaiKey) return openaiEmbeddings(openaiKey, config.model);
+      console.warn('[Embeddings] OpenAI selected but no OpenAI key is set, using local embeddings');
+      return localEmbeddings;
+    case 'compatible':
+      if (config.baseUrl && config.model) return compatibleEmbeddings(config.baseUrl, config.model, config.key);
+      console.warn('[Embeddings] Compatible endpoint needs a base URL and model, using local embeddings');
+      return localEmbeddings;
+    case 'local':
+      return localEmbeddings;
+    default:
+      return openaiKey ? openaiEmbeddings(openaiKey) : localEmbeddings;
+  }
+}
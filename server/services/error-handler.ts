@@ -1,4 +1,5 @@
-import { type LLMProvider } from "@shared/schema";
+import { getProviders } from "./provider-registry";
+import { gauge, llmRetries, llmFallbacks } from "./prometheus";
 
 // Error codes for structured logging
 export enum ErrorCode {
@@ -14,7 +15,7 @@ export enum ErrorCode {
 export interface LLMError {
   code: ErrorCode;
   detail: string;
-  provider: LLMProvider;
+  provider: string;
   degraded: boolean;
   timestamp: Date;
   retryCount?: number;
@@ -35,10 +36,22 @@ const CIRCUIT_BREAKER_CONFIG = {
 };
 
 // Circuit breakers per provider
-const circuitBreakers = new Map<LLMProvider, CircuitBreakerState>();
+const circuitBreakers = new Map<string, CircuitBreakerState>();
+
+const CIRCUIT_STATES: CircuitBreakerState['state'][] = ['CLOSED', 'OPEN', 'HALF_OPEN'];
+
+// One sample per provider and state, set to 1 for the current state
+gauge('grand_central_circuit_breaker_state', 'Circuit breaker state per provider (1 = current state)', () =>
+  Object.entries(getCircuitBreakerStatus()).flatMap(([provider, status]) =>
+    CIRCUIT_STATES.map(state => ({ labels: { provider, state }, value: status.state === state ? 1 : 0 }))
+  )
+);
+gauge('grand_central_circuit_breaker_failures', 'Consecutive failures counted by each circuit breaker', () =>
+  Object.entries(getCircuitBreakerStatus()).map(([provider, status]) => ({ labels: { provider }, value: status.failureCount }))
+);
 
 // Initialize circuit breaker for a provider
-function getCircuitBreaker(provider: LLMProvider): CircuitBreakerState {
+function getCircuitBreaker(provider: string): CircuitBreakerState {
   if (!circuitBreakers.has(provider)) {
     circuitBreakers.set(provider, {
       failures: 0,
@@ -50,7 +63,7 @@ function getCircuitBreaker(provider: LLMProvider): CircuitBreakerState {
 }
 
 // Check if circuit breaker allows request
-export function canAttemptRequest(provider: LLMProvider): boolean {
+export function canAttemptRequest(provider: string): boolean {
   const breaker = getCircuitBreaker(provider);
   
   if (breaker.state === 'CLOSED') {
@@ -79,7 +92,7 @@ export function canAttemptRequest(provider: LLMProvider): boolean {
 }
 
 // Record success for circuit breaker
-export function recordSuccess(provider: LLMProvider): void {
+export function recordSuccess(provider: string): void {
   const breaker = getCircuitBreaker(provider);
   breaker.failures = 0;
   breaker.state = 'CLOSED';
@@ -87,7 +100,7 @@ export function recordSuccess(provider: LLMProvider): void {
 }
 
 // Record failure for circuit breaker
-export function recordFailure(provider: LLMProvider): void {
+export function recordFailure(provider: string): void {
   const breaker = getCircuitBreaker(provider);
   breaker.failures++;
   breaker.lastFailureTime = new Date();
@@ -121,7 +134,7 @@ function sleep(ms: number): Promise<void> {
 // Retry with exponential backoff
 export async function retryWithBackoff<T>(
   fn: () => Promise<T>,
-  provider: LLMProvider,
+  provider: string,
   context: string = ""
 ): Promise<T> {
   let lastError: Error | null = null;
@@ -146,6 +159,7 @@ export async function retryWithBackoff<T>(
       recordFailure(provider);
       
       if (attempt < RETRY_CONFIG.maxRetries) {
+        llmRetries.inc({ provider });
         const delay = calculateBackoffDelay(attempt);
         console.log(
           `[Retry] ${provider} attempt ${attempt + 1} failed. ` +
@@ -173,7 +187,7 @@ export function logStructuredError(error: LLMError): void {
 }
 
 // Parse error to structured format
-export function parseError(error: any, provider: LLMProvider, retryCount?: number): LLMError {
+export function parseError(error: any, provider: string, retryCount?: number): LLMError {
   let code = ErrorCode.UNKNOWN;
   let detail = error.message || 'Unknown error';
   
@@ -200,24 +214,22 @@ export function parseError(error: any, provider: LLMProvider, retryCount?: numbe
   };
 }
 
-// Fallback hierarchy - which provider to use if one fails
-const FALLBACK_HIERARCHY: Record<LLMProvider, LLMProvider[]> = {
-  openai: ['claude', 'deepseek', 'grok'],
-  claude: ['openai', 'deepseek', 'grok'],
-  deepseek: ['openai', 'claude', 'grok'],
-  grok: ['openai', 'claude', 'deepseek']
-};
+// Fallback hierarchy - every other registered provider, in registration order
+function getFallbackHierarchy(provider: string): string[] {
+  return getProviders().map(p => p.id).filter(id => id !== provider);
+}
 
 // Get fallback provider
 export function getFallbackProvider(
-  failedProvider: LLMProvider,
-  availableProviders: LLMProvider[]
-): LLMProvider | null {
-  const fallbacks = FALLBACK_HIERARCHY[failedProvider];
+  failedProvider: string,
+  availableProviders: string[]
+): string | null {
+  const fallbacks = getFallbackHierarchy(failedProvider);
   
   for (const fallback of fallbacks) {
     if (availableProviders.includes(fallback) && canAttemptRequest(fallback)) {
       console.log(`[Fallback] Using ${fallback} as fallback for ${failedProvider}`);
+      llmFallbacks.inc({ from: failedProvider, to: fallback });
       return fallback;
     }
   }
@@ -229,9 +241,8 @@ export function getFallbackProvider(
 export function getCircuitBreakerStatus(): Record<string, any> {
   const status: Record<string, any> = {};
   
-  // Ensure all providers are initialized
-  const allProviders: LLMProvider[] = ['openai', 'claude', 'deepseek', 'grok'];
-  allProviders.forEach(provider => {
+  // Ensure all registered providers are initialized
+  getProviders().forEach(({ id: provider }) => {
     const breaker = getCircuitBreaker(provider);
     status[provider] = {
       state: breaker.state,
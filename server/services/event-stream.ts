@@ -0,0 +1,38 @@
+import type { Response } from "express";
+
+// Server-Sent Events helper for streaming endpoints
+
+export interface EventStream {
+  send: (event: string, data: unknown) => void;
+  close: () => void;
+  isClosed: () => boolean;
+}
+
+// Switch a response into SSE mode and return a small writer around it
+export function openEventStream(res: Response): EventStream {
+  let closed = false;
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no'); // Disable proxy buffering
+  res.flushHeaders();
+
+  res.on('close', () => {
+    closed = true;
+  });
+
+  return {
+    send(event, data) {
+      if (closed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close() {
+      if (closed) return;
+      closed = true;
+      res.end();
+    },
+    isClosed: () => closed
+  };
+}
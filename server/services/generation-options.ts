@@ -0,0 +1,65 @@
+import {
+  type Agent,
+  type Discussion,
+  type GenerationOptions,
+  type GenerationOverrides
+} from "@shared/schema";
+import { getProvider } from "./provider-registry";
+
+// Generation options resolver - merges user preferences, per-provider settings and
+// discussion/agent overrides into the options passed to a provider call
+
+export interface GenerationSources {
+  settings?: any;
+  discussion?: Pick<Discussion, 'generationOptions'>;
+  agent?: Pick<Agent, 'llmProvider' | 'generationOptions'> & Partial<Pick<Agent, 'currentMode'>>;
+}
+
+// Keep only values that are actually set, so later layers never erase earlier ones with blanks
+function pickDefined(options: Partial<GenerationOptions> | undefined): GenerationOptions {
+  const result: GenerationOptions = {};
+  if (!options) return result;
+
+  if (typeof options.model === 'string' && options.model) result.model = options.model;
+  if (typeof options.endpoint === 'string' && options.endpoint) result.endpoint = options.endpoint;
+  if (Number.isFinite(options.maxTokens) && options.maxTokens! > 0) result.maxTokens = options.maxTokens;
+  if (Number.isFinite(options.temperature)) result.temperature = options.temperature;
+  if (Number.isFinite(options.historyMessages) && options.historyMessages! >= 0) result.historyMessages = options.historyMessages;
+  if (Number.isFinite(options.historyTokens) && options.historyTokens! >= 0) result.historyTokens = options.historyTokens;
+
+  return result;
+}
+
+// Discussion and agent layers never set the endpoint, even when an older record still holds one
+function pickSampling(options: Partial<GenerationOptions> | undefined): GenerationOptions {
+  const { endpoint: _endpoint, ...sampling } = pickDefined(options);
+  return sampling;
+}
+
+export function resolveGenerationOptions(provider: string, sources: GenerationSources = {}): GenerationOptions {
+  const { settings, discussion, agent } = sources;
+  const adapter = getProvider(provider);
+  const preferences = settings?.preferences || {};
+  const providerSettings = adapter ? settings?.apiKeys?.[adapter.settingsKey] : undefined;
+  const overrides = (discussion?.generationOptions || {}) as GenerationOverrides;
+
+  return {
+    ...pickDefined({ model: adapter?.defaultModel, endpoint: adapter?.defaultEndpoint }),
+    ...pickDefined({
+      maxTokens: preferences.maxTokens,
+      temperature: preferences.temperature,
+      historyMessages: preferences.historyMessages,
+      historyTokens: preferences.historyTokens
+    }),
+    ...pickDefined({ model: providerSettings?.model, endpoint: providerSettings?.endpoint }),
+    ...pickDefined({
+      maxTokens: overrides.maxTokens,
+      temperature: overrides.temperature,
+      historyMessages: overrides.historyMessages,
+      historyTokens: overrides.historyTokens
+    }),
+    ...pickSampling(overrides.providers?.[provider]),
+    // Agent overrides only apply to the provider the agent runs on
+    ...(agent?.llmProvider === provider ? pickSampling(agent.generationOptions as GenerationOptions) : {})
+  };
+}
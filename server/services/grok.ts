@@ -1,45 +1,148 @@
 import OpenAI from 'openai';
+import type { GenerationOptions, ProviderResponse, TokenUsage } from '@shared/schema';
+import type { ProviderAdapter, ApiKeyTestResult } from './provider-registry';
+import { toTokenUsage } from './openai-compatible';
 
-export async function generateResponse(
-  prompt: string,
-  messages: Array<{ role: string; content: string }>,
-  apiKey?: string
-): Promise<string> {
+const DEFAULT_MODEL = 'grok-4-latest';
+const SYSTEM_PROMPT = 'You are the Efficiency Optimizer. Focus on metrics, rapid prototyping, and cutting through abstractions. Measure everything. Keep it real.';
+
+function createClient(apiKey?: string): OpenAI {
   if (!apiKey) {
     throw new Error('Grok API key is required');
   }
 
-  try {
-    // Grok uses OpenAI-compatible API format
-    const grok = new OpenAI({
-      apiKey: apiKey,
-      baseURL: 'https://api.x.ai/v1',
-    });
+  // Grok uses OpenAI-compatible API format
+  return new OpenAI({
+    apiKey: apiKey,
+    baseURL: 'https://api.x.ai/v1',
+  });
+}
+
+function buildMessages(
+  prompt: string,
+  messages: Array<{ role: string; content: string }>
+): OpenAI.ChatCompletionMessageParam[] {
+  return [
+    {
+      role: 'system',
+      content: SYSTEM_PROMPT
+    },
+    ...messages.map(msg => ({
+      role: msg.role as 'user' | 'assistant',
+      content: msg.content
+    })), // History is already trimmed by the router
+    {
+      role: 'user',
+      content: prompt
+    }
+  ];
+}
 
+export async function generateResponse(
+  prompt: string,
+  messages: Array<{ role: string; content: string }>,
+  apiKey?: string,
+  options: GenerationOptions = {}
+): Promise<ProviderResponse> {
+  const grok = createClient(apiKey);
+
+  try {
     const response = await grok.chat.completions.create({
-      model: 'grok-4-latest',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are the Efficiency Optimizer. Focus on metrics, rapid prototyping, and cutting through abstractions. Measure everything. Keep it real.'
-        },
-        ...messages.slice(-8).map(msg => ({
-          role: msg.role as 'user' | 'assistant',
-          content: msg.content
-        })), // Keep last 8 messages for context
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      max_tokens: 2000,
-      temperature: 0.7,
+      model: options.model || DEFAULT_MODEL,
+      messages: buildMessages(prompt, messages),
+      max_tokens: options.maxTokens ?? 2000,
+      temperature: options.temperature ?? 0.7,
       stream: false
     });
 
-    return response.choices[0]?.message?.content || 'No response generated';
+    return {
+      content: response.choices[0]?.message?.content || 'No response generated',
+      usage: toTokenUsage(response.usage)
+    };
   } catch (error: any) {
     console.error('Grok API error:', error);
     throw new Error(`Grok API error: ${error.message}`);
   }
-}
\ No newline at end of file
+}
+
+// Streaming variant - yields text deltas as they arrive
+export async function* streamResponse(
+  prompt: string,
+  messages: Array<{ role: string; content: string }>,
+  apiKey?: string,
+  options: GenerationOptions = {}
+): AsyncGenerator<string, TokenUsage | undefined> {
+  const grok = createClient(apiKey);
+
+  try {
+    const stream = await grok.chat.completions.create({
+      model: options.model || DEFAULT_MODEL,
+      messages: buildMessages(prompt, messages),
+      max_tokens: options.maxTokens ?? 2000,
+      temperature: options.temperature ?? 0.7,
+      stream: true,
+      stream_options: { include_usage: true }
+    });
+
+    let usage: TokenUsage | undefined;
+    for await (const chunk of stream) {
+      usage = toTokenUsage(chunk.usage) || usage;
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        yield delta;
+      }
+    }
+    return usage;
+  } catch (error: any) {
+    console.error('Grok API error:', error);
+    throw new Error(`Grok API error: ${error.message}`);
+  }
+}
+
+// Verify an API key with a minimal request
+export async function testApiKey(apiKey: string): Promise<ApiKeyTestResult> {
+  console.log('Testing Grok API key...');
+  const response = await fetch('https://api.x.ai/v1/chat/completions', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      model: 'grok-4-latest',
+      messages: [{ role: 'user', content: 'test' }],
+      max_tokens: 5
+    })
+  });
+
+  console.log('Grok API response status:', response.status);
+
+  if (response.ok) {
+    console.log('Grok API test successful');
+    return { success: true, error: null, model: 'grok-4-latest' };
+  }
+  const errorData = await response.json().catch(() => null);
+  console.log('Grok API test failed:', response.status, errorData);
+  return { success: false, error: errorData?.error?.message || `API key test failed (${response.status})`, model: null };
+}
+
+export const grokProvider: ProviderAdapter = {
+  id: 'grok',
+  sender: 'grok',
+  label: 'Grok',
+  vendor: 'Grok',
+  settingsKey: 'grok',
+  color: 'hsl(var(--grok))',
+  foreground: 'hsl(var(--grok-foreground))',
+  icon: 'Zap',
+  keyPlaceholder: 'xai-...',
+  models: [
+    { value: 'grok-4-latest', label: 'Grok-4-Latest' }
+  ],
+  defaultModel: DEFAULT_MODEL,
+  contextWindow: 256000,
+  instructions: SYSTEM_PROMPT,
+  generateResponse,
+  streamResponse,
+  testApiKey
+};
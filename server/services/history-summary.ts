@@ -0,0 +1,98 @@
+import { type HistorySummary, type Message } from "@shared/schema";
+import { storage } from "../storage";
+import { getProviders, getProviderApiKey, isProviderConfigured, type ProviderAdapter } from "./provider-registry";
+import { resolveGenerationOptions } from "./generation-options";
+import { DEFAULT_HISTORY_MESSAGES, getHistoryMessages } from "./conversation-history";
+import { retryWithBackoff, canAttemptRequest } from "./error-handler";
+import { buildUsage } from "./pricing";
+import { startResponseTimer, endResponseTimer } from "./metrics";
+
+// Rolling history summary - once older messages fall out of the recent-history window,
+// an LLM folds them into a running summary stored on the discussion
+
+// Wait until this many messages have aged out before summarizing again
+const SUMMARY_BATCH = 6;
+const SUMMARY_MAX_TOKENS = 600;
+
+// Messages before the current user turn - what providers see as history
+export function getPriorMessages(messages: Message[]): Message[] {
+  const lastUserIndex = messages.map(m => m.sender).lastIndexOf('user');
+  return lastUserIndex === -1 ? messages : messages.slice(0, lastUserIndex);
+}
+
+// Provider for background calls (summaries, pattern labels): the user's primary LLM, otherwise any configured one
+export function pickSummarizer(settings: any): ProviderAdapter | undefined {
+  const configured = getProviders().filter(p => isProviderConfigured(settings, p.id) && canAttemptRequest(p.id));
+  const primary = settings?.preferences?.primaryLLM;
+  return configured.find(p => p.settingsKey === primary || p.id === primary) || configured[0];
+}
+
+function buildSummaryPrompt(previous: string | undefined, messages: Message[]): string {
+  const transcript = messages.map(message => {
+    const speaker = message.sender === 'user' ? 'User' : (message.llmProvider || message.sender);
+    return `${speaker}: ${message.content}`;
+  }).join('\n\n');
+
+  return `You maintain a running summary of a multi-model discussion so later turns can refer back to it.
+${previous ? `\nCurrent summary:\n${previous}\n` : ''}
+New messages to fold in:
+
+${transcript}
+
+Write the updated summary in under 300 words. Keep decisions, open questions, key facts and who argued what. Reply with the summary only.`;
+}
+
+export async function updateHistorySummary(discussionId: string, settings: any): Promise<HistorySummary | null> {
+  const discussion = await storage.getDiscussion(discussionId);
+  if (!discussion) return null;
+
+  const current = (discussion.historySummary as HistorySummary | null) || null;
+  const messages = await storage.getMessagesByDiscussion(discussionId);
+  const keepRecent = resolveGenerationOptions('', { settings, discussion }).historyMessages ?? DEFAULT_HISTORY_MESSAGES;
+  const agedOut = messages.length - keepRecent;
+  const covered = current?.messageCount || 0;
+
+  if (agedOut - covered < SUMMARY_BATCH) {
+    return current;
+  }
+
+  const adapter = pickSummarizer(settings);
+  if (!adapter) {
+    return current;
+  }
+
+  const options = {
+    ...resolveGenerationOptions(adapter.id, { settings, discussion }),
+    maxTokens: SUMMARY_MAX_TOKENS,
+    temperature: 0.2
+  };
+  const prompt = buildSummaryPrompt(current?.content, getHistoryMessages(messages.slice(covered, agedOut)));
+  const startTime = startResponseTimer();
+  let response;
+  try {
+    response = await retryWithBackoff(
+      () => adapter.generateResponse(prompt, [], getProviderApiKey(settings, adapter.id), options),
+      adapter.id,
+      `summarize history for discussion ${discussionId}`
+    );
+  } catch (error) {
+    await endResponseTimer(startTime, adapter.id, false, discussionId, discussion.projectId);
+    throw error;
+  }
+  const { content, usage } = response;
+  await endResponseTimer(
+    startTime, adapter.id, true, discussionId, discussion.projectId,
+    buildUsage(adapter, options, prompt, [], content, usage)
+  );
+
+  const summary: HistorySummary = {
+    content,
+    messageCount: agedOut,
+    provider: adapter.id,
+    updatedAt: new Date().toISOString()
+  };
+  await storage.updateDiscussion(discussionId, { historySummary: summary });
+  console.log(`[History Summary] Summarized ${agedOut} messages for discussion ${discussionId} with ${adapter.id}`);
+
+  return summary;
+}
@@ -1,88 +1,137 @@
-import { 
-  type Message, 
-  type ContextItem, 
-  type LLMProvider 
+import {
+  type ContextReport,
+  type GenerationOptions,
+  type LLMUsage,
+  type TokenUsage
 } from "@shared/schema";
-import { generateResponse as generateOpenAIResponse } from "./openai";
-import { generateResponse as generateClaudeResponse } from "./claude";
-import { generateResponse as generateDeepseekResponse } from "./deepseek";
-import { generateResponse as generateGrokResponse } from "./grok";
-import { 
-  retryWithBackoff, 
-  parseError, 
+import { getProvider } from "./provider-registry";
+import { buildProviderContext, type ConversationInput } from "./context-manager";
+import { buildUsage } from "./pricing";
+import { startResponseTimer, endResponseTimer, type MetricTags } from "./metrics";
+import {
+  retryWithBackoff,
+  parseError,
   logStructuredError,
   canAttemptRequest
 } from "./error-handler";
 
-export async function generateLLMResponse(
-  provider: LLMProvider,
+// Optional callbacks and metric tags for any provider call
+export interface CallHooks {
+  // Discussion and project the call's response_time / llm_call metrics are recorded against
+  tags?: MetricTags;
+  // Reports what the context builder included or dropped for this call
+  onContext?: (report: ContextReport) => void;
+  // Reports token usage and cost once the call succeeds
+  onUsage?: (usage: LLMUsage) => void;
+}
+
+// Callbacks for streamed responses
+export interface StreamHandlers extends CallHooks {
+  onDelta: (text: string) => void;
+  // Called before a retry so consumers can discard partial output
+  onRestart?: () => void;
+}
+
+// Shared setup for the blocking and streaming paths: circuit breaker, adapter lookup and prompt context
+function prepareCall(
+  provider: string,
   userInput: string,
-  messages: Message[],
-  context: ContextItem[],
-  apiKey?: string,
-  globalContext: any[] = []
-): Promise<string> {
+  conversation: ConversationInput,
+  options: GenerationOptions,
+  hooks: CallHooks
+) {
   // Check circuit breaker before attempting
   if (!canAttemptRequest(provider)) {
     throw new Error(`Circuit breaker OPEN for ${provider} - service temporarily unavailable`);
   }
-  // Build conversation history for context
-  const conversationHistory = messages.slice(-10).map(msg => ({
-    role: msg.sender === 'user' ? 'user' : 'assistant',
-    content: msg.content
-  }));
 
-  // Build global context string from files, URLs, and instructions
-  const globalContextString = globalContext.length > 0 
-    ? `Global Context:\n${globalContext.map(item => {
-        switch (item.type) {
-          case 'file':
-            return `File "${item.metadata?.fileName || 'Uploaded File'}":\n${item.content}`;
-          case 'url':
-            return `Reference URL: ${item.content}`;
-          case 'instruction':
-            return `Global Instructions: ${item.content}`;
-          default:
-            return `${item.type}: ${item.content}`;
-        }
-      }).join('\n\n')}\n\n`
-    : '';
+  const adapter = getProvider(provider);
+  if (!adapter) {
+    throw new Error(`Unsupported LLM provider: ${provider}`);
+  }
 
-  // Build local discussion context string from files and links
-  const localContextString = context.length > 0 
-    ? `Discussion Context:\n${context.map(item => 
-        item.type === 'file' 
-          ? `File "${item.name}":\n${item.content}` 
-          : `Link "${item.name}": ${item.content}`
-      ).join('\n\n')}\n\n`
-    : '';
+  const { fullPrompt, conversationHistory, report } = buildProviderContext(adapter, userInput, conversation, options);
+  hooks.onContext?.(report);
 
-  const fullPrompt = `${globalContextString}${localContextString}User: ${userInput}`;
+  return { adapter, fullPrompt, conversationHistory };
+}
+
+export async function generateLLMResponse(
+  provider: string,
+  userInput: string,
+  conversation: ConversationInput = {},
+  apiKey?: string,
+  options: GenerationOptions = {},
+  hooks: CallHooks = {}
+): Promise<string> {
+  const { adapter, fullPrompt, conversationHistory } = prepareCall(provider, userInput, conversation, options, hooks);
+  const { discussionId, projectId } = hooks.tags || {};
+  const startTime = startResponseTimer();
 
   // Wrap provider call with retry logic and error handling
   try {
-    const response = await retryWithBackoff(async () => {
-      switch (provider) {
-        case "openai":
-          return generateOpenAIResponse(fullPrompt, conversationHistory, apiKey);
-        case "claude":
-          return generateClaudeResponse(fullPrompt, conversationHistory, apiKey);
-        case "deepseek":
-          return generateDeepseekResponse(fullPrompt, conversationHistory, apiKey);
-        case "grok":
-          return generateGrokResponse(fullPrompt, conversationHistory, apiKey);
-        default:
-          throw new Error(`Unsupported LLM provider: ${provider}`);
-      }
-    }, provider, `generate response for ${userInput.substring(0, 50)}...`);
-    
-    return response;
+    const { content, usage } = await retryWithBackoff(
+      () => adapter.generateResponse(fullPrompt, conversationHistory, apiKey, options),
+      provider,
+      `generate response for ${userInput.substring(0, 50)}...`
+    );
+
+    const llmUsage = buildUsage(adapter, options, fullPrompt, conversationHistory, content, usage);
+    hooks.onUsage?.(llmUsage);
+    await endResponseTimer(startTime, provider, true, discussionId, projectId, llmUsage);
+    return content;
   } catch (error) {
     // Parse and log structured error
     const structuredError = parseError(error, provider);
     logStructuredError(structuredError);
-    
+    await endResponseTimer(startTime, provider, false, discussionId, projectId);
+
     // Re-throw for fallback handling at higher level
     throw error;
   }
-}
\ No newline at end of file
+}
+
+// Streaming counterpart of generateLLMResponse - forwards deltas to the handlers
+// and resolves with the full response text once the provider finishes
+export async function streamLLMResponse(
+  provider: string,
+  userInput: string,
+  conversation: ConversationInput,
+  handlers: StreamHandlers,
+  apiKey?: string,
+  options: GenerationOptions = {}
+): Promise<string> {
+  const { adapter, fullPrompt, conversationHistory } = prepareCall(provider, userInput, conversation, options, handlers);
+  const { discussionId, projectId } = handlers.tags || {};
+  const startTime = startResponseTimer();
+
+  let attempt = 0;
+  try {
+    const { text, usage } = await retryWithBackoff(async () => {
+      if (attempt++ > 0) {
+        handlers.onRestart?.();
+      }
+
+      // Iterate by hand - the generator's return value carries the token usage
+      const deltas = adapter.streamResponse(fullPrompt, conversationHistory, apiKey, options);
+      let text = '';
+      let result = await deltas.next();
+      while (!result.done) {
+        text += result.value;
+        handlers.onDelta(result.value);
+        result = await deltas.next();
+      }
+      return { text, usage: result.value as TokenUsage | undefined };
+    }, provider, `stream response for ${userInput.substring(0, 50)}...`);
+
+    const llmUsage = buildUsage(adapter, options, fullPrompt, conversationHistory, text, usage);
+    handlers.onUsage?.(llmUsage);
+    await endResponseTimer(startTime, provider, true, discussionId, projectId, llmUsage);
+    return text;
+  } catch (error) {
+    const structuredError = parseError(error, provider);
+    logStructuredError(structuredError);
+    await endResponseTimer(startTime, provider, false, discussionId, projectId);
+    throw error;
+  }
+}
@@ -1,5 +1,43 @@
 import { storage } from "../storage";
-import { InsertMetric } from "@shared/schema";
+import {
+  InsertMetric,
+  type LLMUsage,
+  type MetricBucket,
+  type MetricsSeriesPoint,
+  type MetricsSeriesQuery
+} from "@shared/schema";
+import { type SpendRow } from "../storage";
+import { getProvider } from "./provider-registry";
+import { llmCalls, llmCallDuration, llmTokens, llmCost } from "./prometheus";
+
+// Window for the spend breakdowns on the dashboard
+const SPEND_DAYS = 30;
+
+const BUCKET_MS: Record<MetricBucket, number> = {
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000
+};
+// Upper bound on points per series, to keep windows and buckets sensible
+const MAX_SERIES_POINTS = 1000;
+
+// LLM spend for one provider, project or discussion
+export interface SpendBreakdown {
+  id: string;
+  label: string;
+  costUsd: number;
+  tokens: number;
+  calls: number;
+}
+
+export interface SpendSummary {
+  totalCostUsd: number;
+  totalTokens: number;
+  byProvider: SpendBreakdown[];
+  byProject: SpendBreakdown[];
+  byDiscussion: SpendBreakdown[];
+  daily: { date: string; costUsd: number; tokens: number }[]; // Oldest first, one entry per day
+}
 
 // Interface for metrics dashboard data
 export interface MetricsDashboard {
@@ -20,6 +58,15 @@ export interface MetricsDashboard {
   activeDiscussions: number;
   messagesPerHour: number;
   llmSuccessRate: number;
+
+  // LLM spend over the last SPEND_DAYS days
+  spend: SpendSummary;
+}
+
+// Discussion and project a metric belongs to
+export interface MetricTags {
+  discussionId?: string;
+  projectId?: string;
 }
 
 // Track a metric
@@ -34,7 +81,7 @@ export async function trackMetric(
     const metric: InsertMetric = {
       type,
       value,
-      metadata: metadata ? JSON.stringify(metadata) : null,
+      metadata: metadata ?? null,
       discussionId,
       projectId
     };
@@ -46,49 +93,75 @@ export async function trackMetric(
   }
 }
 
-// Get metrics summary for dashboard
-export async function getMetricsSummary(): Promise<MetricsDashboard> {
+function toBreakdown(rows: SpendRow[], labelOf: (id: string) => string): SpendBreakdown[] {
+  return rows.map(({ key, ...totals }) => ({ id: key, label: labelOf(key), ...totals }));
+}
+
+async function getSpendSummary(now: Date, userId: string): Promise<SpendSummary> {
+  const since = new Date(now.getTime() - SPEND_DAYS * 24 * 60 * 60 * 1000);
+  const [byProvider, byProject, byDiscussion, byDay] = await Promise.all([
+    storage.getSpend('provider', { since, userId }),
+    storage.getSpend('project', { since, userId }),
+    storage.getSpend('discussion', { since, userId }),
+    storage.getSpend('day', { since, userId })
+  ]);
+
+  const projects = new Map((await storage.getAllProjects(userId)).map(p => [p.id, p.name]));
+  const discussions = new Map((await storage.getDiscussions(userId)).map(d => [d.id, d.name]));
+
+  // One entry per day, including days without spend
+  const days = new Map(byDay.map(row => [row.key, row]));
+  const daily = Array.from({ length: SPEND_DAYS }, (_, i) => {
+    const date = new Date(now.getTime() - (SPEND_DAYS - 1 - i) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    return { date, costUsd: days.get(date)?.costUsd ?? 0, tokens: days.get(date)?.tokens ?? 0 };
+  });
+
+  return {
+    totalCostUsd: byProvider.reduce((sum, row) => sum + row.costUsd, 0),
+    totalTokens: byProvider.reduce((sum, row) => sum + row.tokens, 0),
+    byProvider: toBreakdown(byProvider, id => getProvider(id)?.label || id),
+    byProject: toBreakdown(byProject, id => projects.get(id) || 'Deleted project'),
+    byDiscussion: toBreakdown(byDiscussion, id => discussions.get(id) || 'Deleted discussion'),
+    daily
+  };
+}
+
+// Get metrics summary for dashboard - counts and averages are aggregated in SQL, limited to
+// the metrics of the projects the user can access
+export async function getMetricsSummary(userId: string): Promise<MetricsDashboard> {
   try {
-    const metrics = await storage.getMetrics();
     const now = new Date();
     const oneHourAgo = new Date(now.getTime() - 60 * 60 * 1000);
     const oneDayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
 
-    // Filter metrics by time periods
-    const recentMetrics = metrics.filter((m) => new Date(m.timestamp!) > oneHourAgo);
-    const dailyMetrics = metrics.filter((m) => new Date(m.timestamp!) > oneDayAgo);
+    const [recentCounts, dailyCounts, avgResponseMs] = await Promise.all([
+      storage.getMetricCounts(oneHourAgo, userId),
+      storage.getMetricCounts(oneDayAgo, userId),
+      storage.getMetricAverage('response_time', oneDayAgo, userId)
+    ]);
+    const count = (counts: Record<string, number>, type: string) => counts[type] || 0;
 
     // Response time metrics
-    const responseTimeMetrics = dailyMetrics.filter((m) => m.type === 'response_time');
-    const avgResponseTime = responseTimeMetrics.length > 0 
-      ? responseTimeMetrics.reduce((sum, m) => sum + m.value, 0) / responseTimeMetrics.length / 1000 // Convert to seconds
-      : 0;
+    const avgResponseTime = avgResponseMs / 1000; // Convert to seconds
 
     // Task completion metrics
-    const taskStartedMetrics = dailyMetrics.filter((m) => m.type === 'task_started');
-    const taskCompletedMetrics = dailyMetrics.filter((m) => m.type === 'task_completed');
-    const tasksStarted = taskStartedMetrics.length;
-    const tasksCompleted = taskCompletedMetrics.length;
+    const tasksStarted = count(dailyCounts, 'task_started');
+    const tasksCompleted = count(dailyCounts, 'task_completed');
     const completionRate = tasksStarted > 0 ? (tasksCompleted / tasksStarted) * 100 : 0;
 
     // Pattern detection metrics
-    const patternMetrics = dailyMetrics.filter((m) => m.type === 'pattern_detected');
-    const agentCreatedMetrics = dailyMetrics.filter((m) => m.type === 'agent_created');
-    const patternsDetected = patternMetrics.length;
-    const agentsCreated = agentCreatedMetrics.length;
+    const patternsDetected = count(dailyCounts, 'pattern_detected');
+    const agentsCreated = count(dailyCounts, 'agent_created');
     const agentUtilization = patternsDetected > 0 ? (agentsCreated / patternsDetected) * 100 : 0;
 
     // System health metrics
-    const llmCallMetrics = recentMetrics.filter((m) => m.type === 'llm_call');
-    const llmSuccessMetrics = recentMetrics.filter((m) => m.type === 'llm_success');
-    const llmSuccessRate = llmCallMetrics.length > 0 ? (llmSuccessMetrics.length / llmCallMetrics.length) * 100 : 100;
+    const llmCalls = count(recentCounts, 'llm_call');
+    const llmSuccessRate = llmCalls > 0 ? (count(recentCounts, 'llm_success') / llmCalls) * 100 : 100;
 
     // Get active discussions and message rate
-    const discussions = await storage.getDiscussions();
+    const discussions = await storage.getDiscussions(userId);
     const activeDiscussions = discussions.length;
-    
-    const messageMetrics = recentMetrics.filter((m) => m.type === 'message_sent');
-    const messagesPerHour = messageMetrics.length;
+    const messagesPerHour = count(recentCounts, 'message_sent');
 
     return {
       avgResponseTime,
@@ -100,7 +173,8 @@ export async function getMetricsSummary(): Promise<MetricsDashboard> {
       agentUtilization,
       activeDiscussions,
       messagesPerHour,
-      llmSuccessRate
+      llmSuccessRate,
+      spend: await getSpendSummary(now, userId)
     };
   } catch (error) {
     console.error('Error getting metrics summary:', error);
@@ -114,29 +188,97 @@ export async function getMetricsSummary(): Promise<MetricsDashboard> {
       agentUtilization: 0,
       activeDiscussions: 0,
       messagesPerHour: 0,
-      llmSuccessRate: 100
+      llmSuccessRate: 100,
+      spend: { totalCostUsd: 0, totalTokens: 0, byProvider: [], byProject: [], byDiscussion: [], daily: [] }
     };
   }
 }
 
+// Bucketed series for the metrics charts. Empty buckets are filled in so charts show gaps as zero.
+// Throws a RangeError when the window is inverted or would produce too many buckets.
+export async function getMetricsSeries(query: MetricsSeriesQuery, userId: string): Promise<MetricsSeriesPoint[]> {
+  const size = BUCKET_MS[query.bucket];
+  const to = query.to || new Date();
+  const from = query.from || new Date(to.getTime() - 24 * 60 * 60 * 1000);
+  if (from >= to) {
+    throw new RangeError('`from` must be before `to`');
+  }
+
+  // Buckets are aligned to UTC, matching date_trunc on the UTC timestamps
+  const first = Math.floor(from.getTime() / size) * size;
+  const count = Math.floor((to.getTime() - first) / size) + 1;
+  if (count > MAX_SERIES_POINTS) {
+    throw new RangeError(`Window too large for ${query.bucket} buckets (max ${MAX_SERIES_POINTS} points)`);
+  }
+
+  const rows = await storage.getMetricSeries(query.type, {
+    bucket: query.bucket,
+    from,
+    to,
+    provider: query.provider,
+    projectId: query.projectId,
+    discussionId: query.discussionId,
+    userId
+  });
+  const byTime = new Map(rows.map(row => [row.time, row]));
+
+  return Array.from({ length: count }, (_, i) => {
+    const time = first + i * size;
+    const row = byTime.get(time);
+    const point: MetricsSeriesPoint = { time: new Date(time).toISOString() };
+
+    switch (query.type) {
+      case 'latency':
+        point.p50 = row?.p50 ?? 0;
+        point.p95 = row?.p95 ?? 0;
+        break;
+      case 'errors': {
+        const calls = row?.calls ?? 0;
+        point.calls = calls;
+        point.errors = Math.max(0, calls - (row?.successes ?? 0));
+        point.errorRate = calls > 0 ? (point.errors / calls) * 100 : 0;
+        break;
+      }
+      case 'calls':
+        point.calls = row?.calls ?? 0;
+        break;
+      case 'tokens':
+        point.tokens = row?.tokens ?? 0;
+        point.costUsd = row?.costUsd ?? 0;
+        break;
+    }
+    return point;
+  });
+}
+
 // Helper to track LLM response time
 export function startResponseTimer() {
   return Date.now();
 }
 
+// Records response_time and llm_call (with token usage and cost when known), plus llm_success on success
 export async function endResponseTimer(
   startTime: number, 
   provider: string, 
   success: boolean,
   discussionId?: string,
-  projectId?: string
+  projectId?: string,
+  usage?: LLMUsage
 ) {
   const responseTime = Date.now() - startTime;
+
+  llmCalls.inc({ provider, outcome: success ? 'success' : 'error' });
+  llmCallDuration.observe({ provider }, responseTime / 1000);
+  if (usage) {
+    llmTokens.inc({ provider, kind: 'prompt' }, usage.promptTokens);
+    llmTokens.inc({ provider, kind: 'completion' }, usage.completionTokens);
+    llmCost.inc({ provider }, usage.costUsd);
+  }
   
   await trackMetric('response_time', responseTime, { provider }, discussionId, projectId);
-  await trackMetric('llm_call', 1, { provider }, discussionId, projectId);
+  await trackMetric('llm_call', 1, usage ?? { provider }, discussionId, projectId);
   
   if (success) {
     await trackMetric('llm_success', 1, { provider }, discussionId, projectId);
   }
-}
\ No newline at end of file
+}
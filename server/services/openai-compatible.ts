@@ -0,0 +1,133 @@
+// Plain-fetch client for servers that speak the OpenAI chat-completions protocol
+// (DeepSeek, vLLM, llama.cpp, Ollama, ...)
+
+import type { ProviderResponse, TokenUsage } from "@shared/schema";
+
+export interface ChatCompletionRequest {
+  baseUrl: string; // e.g. https://api.deepseek.com or http://localhost:8000/v1
+  apiKey?: string;
+  headers?: Record<string, string>;
+  model: string;
+  messages: { role: string; content: string }[];
+  maxTokens?: number;
+  temperature?: number;
+}
+
+function buildRequest(request: ChatCompletionRequest, stream: boolean): [string, RequestInit] {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    ...(request.apiKey ? { 'Authorization': `Bearer ${request.apiKey}` } : {}),
+    ...request.headers
+  };
+
+  return [
+    `${request.baseUrl.replace(/\/+$/, '')}/chat/completions`,
+    {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: request.model,
+        messages: request.messages,
+        max_tokens: request.maxTokens ?? 1000,
+        temperature: request.temperature ?? 0.7,
+        // Ask for a final usage chunk; servers that don't support it ignore the option
+        ...(stream ? { stream: true, stream_options: { include_usage: true } } : {})
+      })
+    }
+  ];
+}
+
+// Throw an error carrying the HTTP status so parseError can classify it
+async function throwHttpError(response: Response): Promise<never> {
+  const errorData = await response.json().catch(() => null);
+  const error: any = new Error(errorData?.error?.message || `HTTP error! status: ${response.status}`);
+  error.status = response.status;
+  throw error;
+}
+
+export interface EmbeddingRequest {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  input: string;
+}
+
+// POST /embeddings and return the single embedding
+export async function createEmbedding(request: EmbeddingRequest): Promise<number[]> {
+  const response = await fetch(`${request.baseUrl.replace(/\/+$/, '')}/embeddings`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(request.apiKey ? { 'Authorization': `Bearer ${request.apiKey}` } : {})
+    },
+    body: JSON.stringify({ model: request.model, input: request.input })
+  });
+  if (!response.ok) await throwHttpError(response);
+
+  const data = await response.json();
+  const embedding = data?.data?.[0]?.embedding;
+  if (!Array.isArray(embedding)) {
+    throw new Error('Embedding response did not contain an embedding');
+  }
+  return embedding;
+}
+
+// Map an OpenAI-style usage object to TokenUsage
+export function toTokenUsage(usage: any): TokenUsage | undefined {
+  if (!usage) return undefined;
+  return { promptTokens: usage.prompt_tokens ?? 0, completionTokens: usage.completion_tokens ?? 0 };
+}
+
+export async function createChatCompletion(request: ChatCompletionRequest): Promise<ProviderResponse> {
+  const response = await fetch(...buildRequest(request, false));
+
+  if (!response.ok) {
+    await throwHttpError(response);
+  }
+
+  const data = await response.json();
+  return {
+    content: data.choices?.[0]?.message?.content || "I'm sorry, I couldn't generate a response.",
+    usage: toTokenUsage(data.usage)
+  };
+}
+
+// Parses the SSE body and yields text deltas; returns the usage if the server reported it
+export async function* streamChatCompletion(request: ChatCompletionRequest): AsyncGenerator<string, TokenUsage | undefined> {
+  const response = await fetch(...buildRequest(request, true));
+
+  if (!response.ok || !response.body) {
+    await throwHttpError(response);
+  }
+
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let usage: TokenUsage | undefined;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) continue;
+
+      const payload = trimmed.slice(5).trim();
+      if (payload === '[DONE]') return usage;
+
+      const chunk = JSON.parse(payload);
+      usage = toTokenUsage(chunk.usage) || usage;
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        yield delta;
+      }
+    }
+  }
+
+  return usage;
+}
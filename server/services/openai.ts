@@ -1,14 +1,14 @@
 import OpenAI from "openai";
+import type { GenerationOptions, ProviderResponse, TokenUsage } from "@shared/schema";
+import type { ProviderAdapter, ApiKeyTestResult } from "./provider-registry";
+import { toTokenUsage } from "./openai-compatible";
 
 // OpenAI service for Grand Central collaborative workspace
 
 const TIMEOUT_MS = 30000; // 30 second timeout
+const DEFAULT_MODEL = "gpt-4-turbo";
 
-export async function generateResponse(
-  prompt: string,
-  conversationHistory: { role: string; content: string }[],
-  apiKey?: string
-): Promise<string> {
+function createClient(apiKey?: string): OpenAI {
   const key = apiKey || process.env.OPENAI_API_KEY;
   if (!key) {
     const error = new Error('OpenAI API key not provided');
@@ -16,17 +16,22 @@ export async function generateResponse(
     throw error;
   }
   
-  const openai = new OpenAI({ 
+  return new OpenAI({ 
     apiKey: key,
     timeout: TIMEOUT_MS
   });
-  
-  const messages: OpenAI.ChatCompletionMessageParam[] = [
+}
+
+function buildMessages(
+  prompt: string,
+  conversationHistory: { role: string; content: string }[]
+): OpenAI.ChatCompletionMessageParam[] {
+  return [
     {
       role: "system",
       content: "You are a helpful AI assistant in a collaborative workspace. Provide thoughtful, relevant responses based on the context and conversation history."
     },
-    ...conversationHistory.slice(-8).map(msg => ({
+    ...conversationHistory.map(msg => ({
       role: msg.role as 'user' | 'assistant',
       content: msg.content
     })),
@@ -35,13 +40,99 @@ export async function generateResponse(
       content: prompt
     }
   ];
+}
+
+export async function generateResponse(
+  prompt: string,
+  conversationHistory: { role: string; content: string }[],
+  apiKey?: string,
+  options: GenerationOptions = {}
+): Promise<ProviderResponse> {
+  const openai = createClient(apiKey);
 
   const response = await openai.chat.completions.create({
-    model: "gpt-4-turbo",
-    messages,
-    max_tokens: 1000,
-    temperature: 0.7
+    model: options.model || DEFAULT_MODEL,
+    messages: buildMessages(prompt, conversationHistory),
+    max_tokens: options.maxTokens ?? 1000,
+    temperature: options.temperature ?? 0.7
+  });
+
+  return {
+    content: response.choices[0]?.message?.content || "I'm sorry, I couldn't generate a response.",
+    usage: toTokenUsage(response.usage)
+  };
+}
+
+// Streaming variant - yields text deltas as they arrive
+export async function* streamResponse(
+  prompt: string,
+  conversationHistory: { role: string; content: string }[],
+  apiKey?: string,
+  options: GenerationOptions = {}
+): AsyncGenerator<string, TokenUsage | undefined> {
+  const openai = createClient(apiKey);
+
+  const stream = await openai.chat.completions.create({
+    model: options.model || DEFAULT_MODEL,
+    messages: buildMessages(prompt, conversationHistory),
+    max_tokens: options.maxTokens ?? 1000,
+    temperature: options.temperature ?? 0.7,
+    stream: true,
+    stream_options: { include_usage: true }
+  });
+
+  let usage: TokenUsage | undefined;
+  for await (const chunk of stream) {
+    usage = toTokenUsage(chunk.usage) || usage;
+    const delta = chunk.choices[0]?.delta?.content;
+    if (delta) {
+      yield delta;
+    }
+  }
+  return usage;
+}
+
+// Verify an API key with a minimal request
+export async function testApiKey(apiKey: string): Promise<ApiKeyTestResult> {
+  const response = await fetch('https://api.openai.com/v1/chat/completions', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      model: 'gpt-3.5-turbo',
+      messages: [{ role: 'user', content: 'test' }],
+      max_tokens: 5
+    })
   });
 
-  return response.choices[0]?.message?.content || "I'm sorry, I couldn't generate a response.";
-}
\ No newline at end of file
+  if (response.ok) {
+    return { success: true, error: null, model: 'gpt-3.5-turbo' };
+  }
+  const errorData = await response.json().catch(() => null);
+  return { success: false, error: errorData?.error?.message || 'API key test failed', model: null };
+}
+
+export const openaiProvider: ProviderAdapter = {
+  id: 'openai',
+  sender: 'gpt4',
+  label: 'GPT-4',
+  vendor: 'OpenAI',
+  settingsKey: 'openai',
+  color: 'hsl(var(--gpt4))',
+  foreground: 'hsl(var(--gpt4-foreground))',
+  icon: 'Bot',
+  keyPlaceholder: 'sk-...',
+  models: [
+    { value: 'gpt-4', label: 'GPT-4' },
+    { value: 'gpt-4-turbo', label: 'GPT-4 Turbo' },
+    { value: 'gpt-3.5-turbo', label: 'GPT-3.5 Turbo' }
+  ],
+  defaultModel: DEFAULT_MODEL,
+  contextWindow: 128000,
+  instructions: "Be practical and implementation-focused.",
+  generateResponse,
+  streamResponse,
+  testApiKey
+};
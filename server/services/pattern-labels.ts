@@ -0,0 +1,230 @@
+import type { PatternLabelSource } from "@shared/schema";
+import { getProviderApiKey } from "./provider-registry";
+import { resolveGenerationOptions } from "./generation-options";
+import { retryWithBackoff } from "./error-handler";
+import { buildUsage } from "./pricing";
+import { startResponseTimer, endResponseTimer, type MetricTags } from "./metrics";
+import { pickSummarizer } from "./history-summary";
+import { hashEmbedding, tokenize } from "./embeddings";
+import type { PatternMatch } from "./semantic-memory";
+import type { PatternDetection } from "./pattern-lifecycle";
+
+// Pattern labels - groups the memories a detection pass matched into clusters of mutually
+// similar memories, then names each cluster with one short LLM call or, without a provider,
+// with the cluster's top keyphrase. Labels of the discussion's active patterns are reused
+// whenever a cluster is about the same theme, so the lifecycle keeps reinforcing one record.
+
+const LABEL_MAX_TOKENS = 120;
+const LABEL_MAX_LENGTH = 60;
+const EXCERPTS_PER_CLUSTER = 3;
+const EXCERPT_LENGTH = 300;
+const KEYPHRASE_TERMS = 5; // Top terms compared against existing labels
+const FALLBACK_LABEL = 'recurring theme';
+
+export interface MemoryCluster {
+  matches: PatternMatch[];
+  centroid: number[];
+}
+
+export interface LabelOptions {
+  threshold: number; // Minimum cosine similarity to a cluster's centroid to join it
+  source: PatternLabelSource;
+  settings: any;
+  existingLabels?: string[]; // Labels of the discussion's active patterns
+  messageIds?: string[]; // Messages that triggered the pass; they support every detected pattern
+  tags?: MetricTags;
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function mean(vectors: number[][]): number[] {
+  const result = new Array<number>(vectors[0].length).fill(0);
+  for (const vector of vectors) {
+    vector.forEach((value, i) => { result[i] += value / vectors.length; });
+  }
+  return result;
+}
+
+// Greedy clustering, most similar matches first: each memory joins the closest cluster
+// whose centroid it is at least `threshold` similar to, or starts a new one
+export function clusterMatches(matches: PatternMatch[], threshold: number): MemoryCluster[] {
+  const clusters: Array<MemoryCluster & { vectors: number[][] }> = [];
+
+  for (const match of [...matches].sort((a, b) => b.similarity - a.similarity)) {
+    const vector = match.embedding?.length ? match.embedding : hashEmbedding(match.content);
+    let best: (typeof clusters)[number] | undefined;
+    let bestScore = -Infinity;
+    for (const cluster of clusters) {
+      if (cluster.centroid.length !== vector.length) continue;
+      const score = cosine(cluster.centroid, vector);
+      if (score > bestScore) {
+        best = cluster;
+        bestScore = score;
+      }
+    }
+
+    if (best && bestScore >= threshold) {
+      best.matches.push(match);
+      best.vectors.push(vector);
+      best.centroid = mean(best.vectors);
+    } else {
+      clusters.push({ matches: [match], vectors: [vector], centroid: vector });
+    }
+  }
+
+  return clusters.map(({ matches, centroid }) => ({ matches, centroid }));
+}
+
+// Terms ranked by how many texts use them; bigrams get a boost so "rate limiting" beats "rate"
+function rankTerms(texts: string[]): string[] {
+  const scores = new Map<string, number>();
+  for (const text of texts) {
+    const words = tokenize(text);
+    const terms = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+    const seen = new Set<string>();
+    for (const term of terms) {
+      const weight = term.includes(' ') ? 1.5 : 1;
+      // Full weight once per text, a little more for repeats within it
+      scores.set(term, (scores.get(term) || 0) + (seen.has(term) ? 0.1 : weight));
+      seen.add(term);
+    }
+  }
+  return Array.from(scores.entries())
+    .sort((a, b) => b[1] - a[1] || b[0].length - a[0].length)
+    .map(([term]) => term);
+}
+
+// The existing label sharing most of its words with the cluster's top terms, if at least half
+function matchExistingLabel(terms: string[], existingLabels: string[]): string | undefined {
+  const vocabulary = new Set(terms.slice(0, KEYPHRASE_TERMS).flatMap(term => term.split(' ')));
+  let best: string | undefined;
+  let bestOverlap = 0;
+  for (const label of existingLabels) {
+    const words = tokenize(label);
+    if (words.length === 0) continue;
+    const overlap = words.filter(word => vocabulary.has(word)).length / words.length;
+    if (overlap >= 0.5 && overlap > bestOverlap) {
+      best = label;
+      bestOverlap = overlap;
+    }
+  }
+  return best;
+}
+
+export function localLabel(cluster: MemoryCluster, existingLabels: string[] = []): string {
+  const terms = rankTerms(cluster.matches.map(match => match.content));
+  return matchExistingLabel(terms, existingLabels) || terms[0] || FALLBACK_LABEL;
+}
+
+function excerpt(content: string): string {
+  const text = content.replace(/\s+/g, ' ').trim();
+  return text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH)}…` : text;
+}
+
+function buildLabelPrompt(clusters: MemoryCluster[], existingLabels: string[]): string {
+  const groups = clusters.map((cluster, i) => {
+    const lines = cluster.matches.slice(0, EXCERPTS_PER_CLUSTER).map(match => `- ${excerpt(match.content)}`);
+    return `Group ${i + 1}:\n${lines.join('\n')}`;
+  }).join('\n\n');
+  const existing = existingLabels.length > 0
+    ? `\nLabels already in use: ${existingLabels.map(label => `"${label}"`).join(', ')}. Reuse one exactly when a group is about the same theme.\n`
+    : '';
+
+  return `Name the recurring theme of each group of messages from one discussion.
+${existing}
+${groups}
+
+Reply with one line per group, in order, formatted "1. label". Each label is 2-5 words naming the concrete topic (never "discussion" or "pattern"), with no quotes or trailing punctuation.`;
+}
+
+// Numbered lines to labels by group index; unparseable or missing lines are left undefined
+export function parseLabels(content: string, count: number): Array<string | undefined> {
+  const labels = new Array<string | undefined>(count).fill(undefined);
+  for (const line of content.split('\n')) {
+    const match = line.match(/^\s*(?:group\s*)?(\d+)\s*[.):-]\s*(.+)$/i);
+    if (!match) continue;
+    const index = parseInt(match[1]) - 1;
+    const label = match[2].replace(/[*_"'`]/g, '').replace(/[.,;:!]+$/, '').trim().slice(0, LABEL_MAX_LENGTH);
+    if (index >= 0 && index < count && label) labels[index] = label;
+  }
+  return labels;
+}
+
+async function generateLabels(
+  clusters: MemoryCluster[],
+  existingLabels: string[],
+  settings: any,
+  tags: MetricTags = {}
+): Promise<Array<string | undefined>> {
+  const adapter = pickSummarizer(settings);
+  if (!adapter) return clusters.map(() => undefined);
+
+  const options = {
+    ...resolveGenerationOptions(adapter.id, { settings }),
+    maxTokens: LABEL_MAX_TOKENS,
+    temperature: 0.2
+  };
+  const prompt = buildLabelPrompt(clusters, existingLabels);
+  const startTime = startResponseTimer();
+  let response;
+  try {
+    response = await retryWithBackoff(
+      () => adapter.generateResponse(prompt, [], getProviderApiKey(settings, adapter.id), options),
+      adapter.id,
+      `label ${clusters.length} pattern clusters`
+    );
+  } catch (error) {
+    await endResponseTimer(startTime, adapter.id, false, tags.discussionId, tags.projectId);
+    throw error;
+  }
+  const { content, usage } = response;
+  await endResponseTimer(
+    startTime, adapter.id, true, tags.discussionId, tags.projectId,
+    buildUsage(adapter, options, prompt, [], content, usage)
+  );
+
+  return parseLabels(content, clusters.length);
+}
+
+// Cluster a pass's matches and name each cluster. Clusters that end up with the same
+// label are merged into one detection.
+export async function labelPatterns(matches: PatternMatch[], options: LabelOptions): Promise<PatternDetection[]> {
+  const { threshold, source, settings, existingLabels = [], messageIds = [], tags } = options;
+  const clusters = clusterMatches(matches, threshold);
+  if (clusters.length === 0) return [];
+
+  let labels = clusters.map(cluster => localLabel(cluster, existingLabels));
+  if (source === 'llm') {
+    try {
+      const generated = await generateLabels(clusters, existingLabels, settings, tags);
+      labels = labels.map((label, i) => generated[i] || label);
+    } catch (error) {
+      console.error('[Pattern Labels] LLM labelling failed, using keyphrases:', error);
+    }
+  }
+
+  const detections = new Map<string, { label: string; matches: PatternMatch[] }>();
+  clusters.forEach((cluster, i) => {
+    const key = labels[i].trim().toLowerCase();
+    const detection = detections.get(key) || { label: labels[i], matches: [] };
+    detection.matches.push(...cluster.matches);
+    detections.set(key, detection);
+  });
+
+  return Array.from(detections.values()).map(({ label, matches }) => ({
+    label,
+    score: matches.reduce((sum, match) => sum + match.similarity, 0) / matches.length,
+    messageIds: [
+      ...matches.map(match => match.metadata?.messageId).filter((id): id is string => typeof id === 'string'),
+      ...messageIds
+    ]
+  }));
+}
@@ -0,0 +1,166 @@
+import type { Discussion, Pattern, PatternStatus } from "@shared/schema";
+import { storage } from "../storage";
+import { trackMetric } from "./metrics";
+import { createCompanionAnnouncement } from "./companion-simple";
+
+// Pattern lifecycle - each semantic detection pass reinforces the patterns it found and lets
+// the others fade. Strength halves every day a pattern goes unseen and drops further on each
+// pass that misses it. Patterns grow emerging → strong → complete, or dissolve once they fade.
+
+const HALF_LIFE_HOURS = 24;
+const MISSED_PASS_DECAY = 0.8;
+const REINFORCEMENT = 0.5; // Share of the remaining headroom a full-score detection adds
+const STRONG_STRENGTH = 0.6;
+const COMPLETE_STRENGTH = 0.85;
+const DISSOLVE_STRENGTH = 0.15;
+const MAX_MESSAGE_IDS = 50;
+
+// One pattern found by a detection pass (see pattern-labels.ts)
+export interface PatternDetection {
+  label: string;
+  score: number; // 0-1, mean similarity of the supporting memories
+  messageIds: string[];
+}
+
+export interface PatternPassResult {
+  patterns: Pattern[]; // All of the discussion's patterns after the pass
+  reinforced: Pattern[]; // Detected in this pass
+  completed: Pattern[];
+  dissolved: Pattern[];
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, Number.isFinite(value) ? value : 0));
+}
+
+function normalizeLabel(label: string): string {
+  return label.trim().toLowerCase();
+}
+
+export function decayStrength(strength: number, since: Date | null, now: Date): number {
+  if (!since) return strength;
+  const hours = Math.max(0, now.getTime() - since.getTime()) / 3_600_000;
+  return strength * Math.pow(0.5, hours / HALF_LIFE_HOURS);
+}
+
+export function reinforceStrength(strength: number, score: number): number {
+  return clamp(strength + (1 - strength) * REINFORCEMENT * clamp(score));
+}
+
+// A reinforced pattern never dissolves in the same pass
+export function statusFor(strength: number, reinforced: boolean): PatternStatus {
+  if (strength >= COMPLETE_STRENGTH) return 'complete';
+  if (strength >= STRONG_STRENGTH) return 'strong';
+  if (!reinforced && strength < DISSOLVE_STRENGTH) return 'dissolved';
+  return 'emerging';
+}
+
+export function isActivePattern(pattern: Pick<Pattern, 'status'>): boolean {
+  return pattern.status === 'emerging' || pattern.status === 'strong';
+}
+
+function mergeMessageIds(existing: unknown, added: string[]): string[] {
+  const ids = Array.isArray(existing) ? existing.filter((id): id is string => typeof id === 'string') : [];
+  return Array.from(new Set([...ids, ...added])).slice(-MAX_MESSAGE_IDS);
+}
+
+// Apply one detection pass: reinforce detected patterns, decay the rest, record and announce
+// completions and dissolutions, and mirror the active labels onto discussions.detectedPatterns
+export async function recordDetectionPass(
+  discussion: Pick<Discussion, 'id' | 'projectId'>,
+  detections: PatternDetection[],
+  now: Date = new Date()
+): Promise<PatternPassResult> {
+  const existing = await storage.getPatternsByDiscussion(discussion.id);
+  const active = new Map(existing.filter(isActivePattern).map(pattern => [normalizeLabel(pattern.label), pattern]));
+  const complete = new Map(existing.filter(pattern => pattern.status === 'complete').map(pattern => [normalizeLabel(pattern.label), pattern]));
+  const touched = new Map<string, Pattern>();
+  const reinforced: Pattern[] = [];
+  const completed: Pattern[] = [];
+  const dissolved: Pattern[] = [];
+
+  for (const detection of detections) {
+    const key = normalizeLabel(detection.label);
+    if (!key || touched.has(key)) continue;
+
+    // A completed pattern stays complete and just records the new sighting
+    const done = active.has(key) ? undefined : complete.get(key);
+    if (done) {
+      const pattern = await storage.updatePattern(done.id, {
+        detections: done.detections + 1,
+        messageIds: mergeMessageIds(done.messageIds, detection.messageIds),
+        lastSeenAt: now
+      });
+      touched.set(key, pattern);
+      reinforced.push(pattern);
+      continue;
+    }
+
+    const current = active.get(key);
+    const before = current ? decayStrength(current.strength, current.updatedAt, now) : 0;
+    const strength = reinforceStrength(before, detection.score);
+    const status = statusFor(strength, true);
+    const resolvedAt = status === 'complete' ? now : null;
+
+    const pattern = current
+      ? await storage.updatePattern(current.id, {
+          strength,
+          status,
+          detections: current.detections + 1,
+          messageIds: mergeMessageIds(current.messageIds, detection.messageIds),
+          lastSeenAt: now,
+          updatedAt: now,
+          resolvedAt
+        })
+      : await storage.createPattern({
+          discussionId: discussion.id,
+          label: detection.label.trim(),
+          strength,
+          status,
+          messageIds: mergeMessageIds([], detection.messageIds),
+          firstSeenAt: now,
+          lastSeenAt: now,
+          updatedAt: now,
+          resolvedAt
+        });
+    touched.set(key, pattern);
+    reinforced.push(pattern);
+    if (status === 'complete') completed.push(pattern);
+  }
+
+  for (const [key, current] of Array.from(active.entries())) {
+    if (touched.has(key)) continue;
+
+    const strength = decayStrength(current.strength, current.updatedAt, now) * MISSED_PASS_DECAY;
+    const status = statusFor(strength, false);
+    const pattern = await storage.updatePattern(current.id, {
+      strength,
+      status,
+      updatedAt: now,
+      resolvedAt: status === 'dissolved' ? now : null
+    });
+    touched.set(key, pattern);
+    if (status === 'dissolved') dissolved.push(pattern);
+  }
+
+  const updated = new Map(Array.from(touched.values()).map(pattern => [pattern.id, pattern]));
+  const patterns = [
+    ...existing.map(pattern => updated.get(pattern.id) ?? pattern),
+    ...Array.from(updated.values()).filter(pattern => !existing.some(p => p.id === pattern.id))
+  ];
+
+  await storage.updateDiscussion(discussion.id, {
+    detectedPatterns: patterns.filter(isActivePattern).map(pattern => pattern.label)
+  });
+
+  for (const pattern of completed) {
+    await storage.createMessage(createCompanionAnnouncement('patternComplete', { discussionId: discussion.id, pattern: pattern.label }));
+    await trackMetric('pattern_completed', 1, { patternId: pattern.id, label: pattern.label }, discussion.id, discussion.projectId);
+  }
+  for (const pattern of dissolved) {
+    await storage.createMessage(createCompanionAnnouncement('patternDissolved', { discussionId: discussion.id, pattern: pattern.label }));
+    await trackMetric('pattern_dissolved', 1, { patternId: pattern.id, label: pattern.label }, discussion.id, discussion.projectId);
+  }
+
+  return { patterns, reinforced, completed, dissolved };
+}
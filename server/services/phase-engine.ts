@@ -0,0 +1,143 @@
+import {
+  discussionPhases,
+  type Discussion,
+  type DiscussionPhase,
+  type PhaseTransition,
+  type PhaseTransitionReason
+} from "@shared/schema";
+import { storage } from "../storage";
+import { trackMetric } from "./metrics";
+import { createCompanionAnnouncement } from "./companion-simple";
+
+// Phase engine - moves a discussion through plasma → gas → liquid → solid as it breathes.
+// A discussion advances one phase at a time, once it has taken the minimum number of breaths
+// for the next phase and either its recent user messages read like that phase, a pattern
+// completed, or it has lingered for a few more breaths.
+
+// Breaths needed before each phase can be entered
+const MIN_BREATHS: Record<DiscussionPhase, number> = {
+  plasma: 0,
+  gas: 1,
+  liquid: 3,
+  solid: 6
+};
+
+// Extra breaths after the minimum before the engine advances without any other signal
+const LINGER_BREATHS = 3;
+
+// User messages the classifier looks at
+const CLASSIFY_MESSAGES = 3;
+
+// Phrases typical of each phase: ideation, research, synthesis, execution
+const PHASE_CUES: Record<DiscussionPhase, RegExp[]> = {
+  plasma: [/\bideas?\b/, /brainstorm/, /what if\b/, /\bimagine/, /could we\b/, /possibilit/, /alternatives?\b/, /\bcreative/, /\bexplore options/],
+  gas: [/\bresearch/, /\bcompare/, /comparison/, /investigat/, /\bevidence/, /\bsources?\b/, /\bdata\b/, /analy[sz]/, /pros and cons/, /how does\b/, /\bwhy\b/, /\bbenchmark/],
+  liquid: [/summar/, /\bcombine/, /synthes/, /\boverall\b/, /trade-?offs?/, /\bdecide/, /\bdecision/, /consensus/, /integrat/, /so far\b/, /\bconclu/],
+  solid: [/implement/, /\bplan\b/, /step[- ]by[- ]step/, /\bsteps\b/, /deadline/, /\btasks?\b/, /\bbuild\b/, /\bdeploy/, /\bcode\b/, /checklist/, /next actions?/, /\bship\b/, /\bmilestones?\b/]
+};
+
+export interface PhaseSignals {
+  recentUserMessages: string[];
+  completedPatterns?: string[]; // Patterns completed in this detection pass
+}
+
+// Most cued phase for a set of messages; null when nothing matches
+export function classifyMessages(texts: string[]): DiscussionPhase | null {
+  const text = texts.join(' ').toLowerCase();
+  let best: DiscussionPhase | null = null;
+  let bestScore = 0;
+
+  for (const phase of discussionPhases) {
+    const score = PHASE_CUES[phase].reduce((sum, cue) => sum + (text.match(new RegExp(cue.source, 'g'))?.length ?? 0), 0);
+    // Ties go to the later phase: a message asking to plan the ideas is already moving on
+    if (score > 0 && score >= bestScore) {
+      best = phase;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+function phaseIndex(phase: string | null | undefined): number {
+  return Math.max(0, discussionPhases.indexOf((phase || 'plasma') as DiscussionPhase));
+}
+
+// The next phase and why, or null if the discussion should stay where it is
+export function evaluatePhase(
+  discussion: Pick<Discussion, 'currentPhase' | 'breathCount' | 'phaseLocked'>,
+  signals: PhaseSignals
+): { to: DiscussionPhase; reason: PhaseTransitionReason } | null {
+  if (discussion.phaseLocked) return null;
+
+  const current = phaseIndex(discussion.currentPhase);
+  const next = discussionPhases[current + 1];
+  if (!next) return null;
+
+  const breaths = discussion.breathCount || 0;
+  if (breaths < MIN_BREATHS[next]) return null;
+
+  const classified = classifyMessages(signals.recentUserMessages);
+  if (classified && phaseIndex(classified) > current) {
+    return { to: next, reason: 'classification' };
+  }
+  if (signals.completedPatterns?.length) {
+    return { to: next, reason: 'pattern' };
+  }
+  if (breaths >= MIN_BREATHS[next] + LINGER_BREATHS) {
+    return { to: next, reason: 'breath' };
+  }
+  return null;
+}
+
+// Move a discussion to a phase, recording the transition and announcing it in the chat
+export async function transitionPhase(
+  discussion: Discussion,
+  to: DiscussionPhase,
+  reason: PhaseTransitionReason,
+  updates: Partial<Pick<Discussion, 'phaseLocked'>> = {}
+): Promise<Discussion> {
+  const from = (discussion.currentPhase || 'plasma') as DiscussionPhase;
+  if (from === to) {
+    return Object.keys(updates).length > 0 ? storage.updateDiscussion(discussion.id, updates) : discussion;
+  }
+
+  const transition: PhaseTransition = {
+    from,
+    to,
+    reason,
+    breathCount: discussion.breathCount || 0,
+    at: new Date().toISOString()
+  };
+  const updated = await storage.updateDiscussion(discussion.id, {
+    ...updates,
+    currentPhase: to,
+    phaseHistory: [...((discussion.phaseHistory as PhaseTransition[]) || []), transition]
+  });
+  // The discussion's agents answer in its new phase
+  await storage.updateDiscussionAgentsMode(discussion.id, to);
+
+  await storage.createMessage(createCompanionAnnouncement('phaseTransition', {
+    discussionId: discussion.id,
+    prevPhase: from,
+    newPhase: to
+  }));
+  await trackMetric('phase_transition', 1, { from, to, reason }, discussion.id, discussion.projectId);
+
+  console.log(`[Phase Engine] ${discussion.id}: ${from} → ${to} (${reason})`);
+  return updated;
+}
+
+// Re-evaluate a discussion after a breath or detection pass; returns the discussion, updated if it moved
+export async function advancePhase(discussionId: string, completedPatterns: string[] = []): Promise<Discussion | undefined> {
+  const discussion = await storage.getDiscussion(discussionId);
+  if (!discussion) return undefined;
+
+  const messages = await storage.getMessagesByDiscussion(discussionId);
+  const recentUserMessages = messages
+    .filter(message => message.sender === 'user')
+    .slice(-CLASSIFY_MESSAGES)
+    .map(message => message.content);
+
+  const next = evaluatePhase(discussion, { recentUserMessages, completedPatterns });
+  return next ? transitionPhase(discussion, next.to, next.reason) : discussion;
+}
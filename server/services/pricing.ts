@@ -0,0 +1,50 @@
+import { type GenerationOptions, type LLMUsage, type ModelPricing, type TokenUsage } from "@shared/schema";
+import type { ConversationTurn, ProviderAdapter } from "./provider-registry";
+import { estimateTokens } from "./conversation-history";
+
+// Model pricing - turns a provider call's token usage into a USD cost
+
+// USD per million tokens, keyed by the model names used in settings
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-3-sonnet': { input: 3, output: 15 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'grok-4-latest': { input: 3, output: 15 },
+  'deepseek-chat': { input: 0.27, output: 1.1 }
+};
+
+// Unknown models (e.g. local custom endpoints) cost nothing
+export function calculateCost(pricing: ModelPricing | undefined, usage: TokenUsage): number {
+  if (!pricing) return 0;
+  return (usage.promptTokens * pricing.input + usage.completionTokens * pricing.output) / 1_000_000;
+}
+
+// Price a finished call. Falls back to estimating tokens from the text when the API didn't report usage.
+export function buildUsage(
+  adapter: ProviderAdapter,
+  options: GenerationOptions,
+  prompt: string,
+  conversationHistory: ConversationTurn[],
+  completion: string,
+  reported?: TokenUsage
+): LLMUsage {
+  const model = options.model || adapter.defaultModel || adapter.id;
+  const tokens: TokenUsage = reported || {
+    promptTokens: estimateTokens(
+      [...conversationHistory.map(turn => turn.content), prompt].join('\n'),
+      adapter.charsPerToken
+    ),
+    completionTokens: estimateTokens(completion, adapter.charsPerToken)
+  };
+
+  return {
+    provider: adapter.id,
+    model,
+    ...tokens,
+    costUsd: calculateCost(adapter.pricing || MODEL_PRICING[model], tokens),
+    ...(reported ? {} : { estimated: true })
+  };
+}
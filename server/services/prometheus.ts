@@ -0,0 +1,110 @@
+// Prometheus exporter - a minimal in-process registry rendered in the text exposition
+// format (version 0.0.4) at GET /metrics. Counters and histograms are updated as events
+// happen; gauges for circuit breakers and semantic memory are read at scrape time.
+
+type Labels = Record<string, string>;
+
+type Sample = { labels?: Labels; value: number };
+
+interface Collector {
+  collect(): string[] | Promise<string[]>;
+}
+
+const collectors: Collector[] = [];
+
+const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+// Series are keyed by their sorted label set
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function header(name: string, help: string, type: string): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+export function counter(name: string, help: string) {
+  const series = new Map<string, { labels: Labels; value: number }>();
+
+  collectors.push({
+    collect: () => [
+      ...header(name, help, 'counter'),
+      ...Array.from(series.values()).map(({ labels, value }) => `${name}${formatLabels(labels)} ${value}`)
+    ]
+  });
+
+  return {
+    inc(labels: Labels = {}, value = 1): void {
+      const key = labelKey(labels);
+      const entry = series.get(key) || { labels, value: 0 };
+      entry.value += value;
+      series.set(key, entry);
+    }
+  };
+}
+
+export function histogram(name: string, help: string, buckets: number[] = DEFAULT_BUCKETS) {
+  const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  collectors.push({
+    collect: () => [
+      ...header(name, help, 'histogram'),
+      ...Array.from(series.values()).flatMap(({ labels, counts, sum, count }) => [
+        // Bucket counts are cumulative
+        ...buckets.map((le, i) => `${name}_bucket${formatLabels({ ...labels, le: String(le) })} ${counts[i]}`),
+        `${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+        `${name}_sum${formatLabels(labels)} ${sum}`,
+        `${name}_count${formatLabels(labels)} ${count}`
+      ])
+    ]
+  });
+
+  return {
+    observe(labels: Labels, value: number): void {
+      const key = labelKey(labels);
+      const entry = series.get(key) || { labels, counts: buckets.map(() => 0), sum: 0, count: 0 };
+      buckets.forEach((le, i) => {
+        if (value <= le) entry.counts[i]++;
+      });
+      entry.sum += value;
+      entry.count++;
+      series.set(key, entry);
+    }
+  };
+}
+
+// Gauge whose samples are computed on every scrape
+export function gauge(name: string, help: string, read: () => Sample[] | Promise<Sample[]>): void {
+  collectors.push({
+    collect: async () => [
+      ...header(name, help, 'gauge'),
+      ...(await read()).map(({ labels = {}, value }) => `${name}${formatLabels(labels)} ${value}`)
+    ]
+  });
+}
+
+export async function renderMetrics(): Promise<string> {
+  const lines = await Promise.all(collectors.map(collector => collector.collect()));
+  return lines.flat().join('\n') + '\n';
+}
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+// Application metrics
+
+export const llmCalls = counter('grand_central_llm_calls_total', 'LLM provider calls by outcome');
+export const llmCallDuration = histogram('grand_central_llm_call_duration_seconds', 'LLM provider call latency, including retries');
+export const llmTokens = counter('grand_central_llm_tokens_total', 'Tokens used by LLM calls');
+export const llmCost = counter('grand_central_llm_cost_usd_total', 'Estimated LLM spend in USD');
+export const llmRetries = counter('grand_central_llm_retries_total', 'LLM call attempts that failed and were retried');
+export const llmFallbacks = counter('grand_central_llm_fallbacks_total', 'Responses handed to a fallback provider');
+export const httpRequestDuration = histogram('grand_central_http_request_duration_seconds', 'HTTP request duration');
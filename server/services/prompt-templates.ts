@@ -0,0 +1,55 @@
+import {
+  discussionPhases,
+  defaultPhaseTemplates,
+  promptTemplatesSchema,
+  type DiscussionPhase,
+  type PromptTemplates
+} from "@shared/schema";
+import type { ProviderAdapter } from "./provider-registry";
+
+// Phase-aware prompting - wraps each provider's role instructions in the template for the
+// discussion's current phase, so models diverge in plasma, research in gas, synthesize in
+// liquid and deliver concrete output in solid
+
+function parseTemplates(value: unknown): PromptTemplates {
+  const parsed = promptTemplatesSchema.safeParse(value ?? {});
+  return parsed.success ? parsed.data : {};
+}
+
+export function isDiscussionPhase(value: unknown): value is DiscussionPhase {
+  return discussionPhases.includes(value as DiscussionPhase);
+}
+
+// Most specific non-blank template wins: project provider > project > settings provider > settings > default
+export function getPhaseTemplate(
+  provider: string,
+  phase: DiscussionPhase,
+  settingsTemplates?: unknown,
+  projectTemplates?: unknown
+): string {
+  const project = parseTemplates(projectTemplates);
+  const settings = parseTemplates(settingsTemplates);
+  const candidates = [
+    project.providers?.[provider]?.[phase],
+    project[phase],
+    settings.providers?.[provider]?.[phase],
+    settings[phase]
+  ];
+  return candidates.find(template => template?.trim()) || defaultPhaseTemplates[phase];
+}
+
+export function renderPhaseTemplate(template: string, role: string, phase: DiscussionPhase): string {
+  return template.replace(/\{role\}/g, role).replace(/\{phase\}/g, phase).trim();
+}
+
+// Role instructions for one provider call; undefined when there is no phase to adapt to
+export function buildRoleInstructions(
+  adapter: ProviderAdapter,
+  phase: unknown,
+  settingsTemplates?: unknown,
+  projectTemplates?: unknown
+): string | undefined {
+  if (!isDiscussionPhase(phase)) return undefined;
+  const template = getPhaseTemplate(adapter.id, phase, settingsTemplates, projectTemplates);
+  return renderPhaseTemplate(template, adapter.instructions || '', phase);
+}
@@ -0,0 +1,131 @@
+import {
+  type ProviderInfo,
+  type CustomProviderConfig,
+  type GenerationOptions,
+  type ProviderResponse,
+  type ModelPricing,
+  type TokenUsage
+} from "@shared/schema";
+import { openaiProvider } from "./openai";
+import { claudeProvider } from "./claude";
+import { deepseekProvider } from "./deepseek";
+import { grokProvider } from "./grok";
+import { createCustomProvider, getCustomProviderId } from "./custom-provider";
+
+// Pluggable LLM provider registry. Every site that needs to know which providers
+// exist (router, fallback, circuit breakers, routes, UI) consults this module.
+
+export type ConversationTurn = { role: string; content: string };
+
+export interface ApiKeyTestResult {
+  success: boolean;
+  error: string | null;
+  model: string | null;
+}
+
+export interface ProviderAdapter extends ProviderInfo {
+  // Role instructions that keep each model's answers distinct
+  instructions: string;
+  // Credentials bundled with the provider definition (custom endpoints)
+  apiKey?: string;
+  // Average characters per token for this model family, used for token estimates
+  charsPerToken?: number;
+  // Price for every model of this provider, overriding the pricing table (custom endpoints)
+  pricing?: ModelPricing;
+  generateResponse(prompt: string, conversationHistory: ConversationTurn[], apiKey?: string, options?: GenerationOptions): Promise<ProviderResponse>;
+  // Yields text deltas and returns the token usage, when the API reports it
+  streamResponse(prompt: string, conversationHistory: ConversationTurn[], apiKey?: string, options?: GenerationOptions): AsyncGenerator<string, TokenUsage | undefined>;
+  // `options` carries the endpoint and model resolved from the user's settings
+  testApiKey(apiKey: string, options?: GenerationOptions): Promise<ApiKeyTestResult>;
+}
+
+// Registered providers, in fallback priority order
+const providers = new Map<string, ProviderAdapter>();
+// Custom endpoints belong to the user whose settings define them (null: settings from before accounts)
+const customOwners = new Map<string, string | null>();
+
+// Built-ins are shared; a custom endpoint is only visible with its owner's settings
+export function isAvailableTo(settings: any, adapter: ProviderAdapter): boolean {
+  return !adapter.custom || customOwners.get(adapter.id) === (settings?.userId ?? null);
+}
+
+export function registerProvider(adapter: ProviderAdapter): void {
+  providers.set(adapter.id, adapter);
+}
+
+export function unregisterProvider(id: string): void {
+  providers.delete(id);
+  customOwners.delete(id);
+}
+
+export function getProvider(id: string): ProviderAdapter | undefined {
+  return providers.get(id);
+}
+
+export function getProviders(): ProviderAdapter[] {
+  return Array.from(providers.values());
+}
+
+export function getProviderBySender(sender: string): ProviderAdapter | undefined {
+  return getProviders().find(p => p.sender === sender);
+}
+
+// Look up the API key stored for a provider in user settings
+export function getProviderApiKey(settings: any, id: string): string | undefined {
+  const adapter = providers.get(id);
+  if (!adapter || !isAvailableTo(settings, adapter)) return undefined;
+  return adapter.apiKey || settings?.apiKeys?.[adapter.settingsKey]?.key || undefined;
+}
+
+// Built-ins need a stored key; custom endpoints may run without one (local servers)
+export function isProviderConfigured(settings: any, id: string): boolean {
+  const adapter = providers.get(id);
+  if (!adapter || !isAvailableTo(settings, adapter)) return false;
+  return !!adapter.custom || !!getProviderApiKey(settings, id);
+}
+
+// Custom provider ids must be unique across users; returns the first config whose id another user has
+export function findCustomProviderConflict(configs: CustomProviderConfig[] = [], ownerId: string | null): CustomProviderConfig | undefined {
+  return configs.find(config => {
+    const id = getCustomProviderId(config);
+    return customOwners.has(id) && customOwners.get(id) !== ownerId;
+  });
+}
+
+// Replace one user's registered custom providers with those defined in their settings.apiKeys.custom
+export function syncCustomProviders(configs: CustomProviderConfig[] = [], ownerId: string | null = null): void {
+  for (const adapter of getProviders()) {
+    if (adapter.custom && customOwners.get(adapter.id) === ownerId) {
+      unregisterProvider(adapter.id);
+    }
+  }
+
+  for (const config of configs) {
+    const adapter = createCustomProvider(config);
+    registerProvider(adapter);
+    customOwners.set(adapter.id, ownerId);
+  }
+}
+
+// Client-safe metadata (no functions or prompts) for the providers these settings can use
+export function getProviderInfo(settings: any): ProviderInfo[] {
+  return getProviders().filter(adapter => isAvailableTo(settings, adapter)).map(({ id, sender, label, vendor, settingsKey, color, foreground, icon, keyPlaceholder, models, defaultModel, defaultEndpoint, contextWindow, custom }) => ({
+    id,
+    sender,
+    label,
+    vendor,
+    settingsKey,
+    color,
+    foreground,
+    icon,
+    keyPlaceholder,
+    models,
+    defaultModel,
+    defaultEndpoint,
+    contextWindow,
+    custom
+  }));
+}
+
+// Built-in providers
+[openaiProvider, claudeProvider, deepseekProvider, grokProvider].forEach(registerProvider);
@@ -0,0 +1,77 @@
+import { type Discussion, type Message, type ResponseModeConfig } from "@shared/schema";
+import { getProvider } from "./provider-registry";
+
+// Sequential "relay" mode - providers answer one after another and each one
+// receives the previous models' replies so it can critique or synthesize them
+
+export type ResolvedResponseMode = Required<ResponseModeConfig>;
+
+// Discussion setting wins; otherwise the global "sequential" preference decides
+export function getResponseMode(discussion: Pick<Discussion, 'responseMode'>, settings: any): ResolvedResponseMode {
+  const config = (discussion.responseMode || {}) as Partial<ResponseModeConfig>;
+  return {
+    mode: config.mode || (settings?.preferences?.sequential ? 'sequential' : 'parallel'),
+    order: config.order || [],
+    incremental: config.incremental ?? true
+  };
+}
+
+// Sort calls by the configured provider order, keeping unlisted providers in registry order
+export function orderRelay<T extends { provider: string }>(calls: T[], order: string[]): T[] {
+  const rank = (provider: string) => {
+    const index = order.indexOf(provider);
+    return index === -1 ? order.length : index;
+  };
+  return calls
+    .map((call, index) => ({ call, index }))
+    .sort((a, b) => rank(a.call.provider) - rank(b.call.provider) || a.index - b.index)
+    .map(({ call }) => call);
+}
+
+// Degraded placeholders ("⚠️ x response unavailable") carry no answer worth relaying
+export function isDegraded(message: Message): boolean {
+  return message.content.startsWith('⚠️') && message.content.includes('response unavailable');
+}
+
+export function buildRelayPrompt(userInput: string, previous: Message[]): string {
+  const answers = previous.filter(message => !isDegraded(message));
+  if (answers.length === 0) {
+    return userInput;
+  }
+
+  const transcript = answers.map(message => {
+    const label = getProvider(message.llmProvider || '')?.label || message.sender;
+    return `[${label}]:\n${message.content}`;
+  }).join('\n\n');
+
+  return `${userInput}
+
+Previous answers in this relay:
+
+${transcript}
+
+Build on these answers: point out anything you disagree with, fill gaps, and synthesize where useful. Do not repeat what has already been said.`;
+}
+
+// Run calls one at a time, feeding each the answers collected so far.
+// A failed call is skipped so the rest of the relay still runs.
+export async function runRelay<T extends { provider: string }>(
+  userInput: string,
+  calls: T[],
+  runCall: (call: T, prompt: string) => Promise<Message | undefined>
+): Promise<Message[]> {
+  const responses: Message[] = [];
+
+  for (const call of calls) {
+    try {
+      const saved = await runCall(call, buildRelayPrompt(userInput, responses));
+      if (saved) {
+        responses.push(saved);
+      }
+    } catch (error) {
+      console.error(`[Relay] ${call.provider} failed:`, error);
+    }
+  }
+
+  return responses;
+}
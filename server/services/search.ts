@@ -0,0 +1,118 @@
+import type { SearchQuery, SearchResult } from "@shared/schema";
+import { storage, type TextSearchRow } from "../storage";
+import { getEmbeddingProvider } from "./embeddings";
+
+// Global search - merges Postgres full-text hits with semantic memory matches
+
+// Lower than the pattern threshold: search should surface loosely related messages too
+const SEMANTIC_THRESHOLD = 0.3;
+// Reciprocal rank fusion constant; dampens the weight of top ranks
+const RRF_K = 60;
+const SNIPPET_LENGTH = 160;
+
+function queryTerms(query: string): string[] {
+  return query.toLowerCase().split(/\s+/).map(term => term.replace(/^[-"]+|"+$/g, '')).filter(term => term.length > 1);
+}
+
+// A window of the text around the first query term, or its start when no term occurs
+export function makeSnippet(text: string, terms: string[]): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  if (flat.length <= SNIPPET_LENGTH) return flat;
+
+  const lower = flat.toLowerCase();
+  const hit = terms.map(term => lower.indexOf(term)).filter(index => index >= 0).sort((a, b) => a - b)[0] ?? 0;
+  const start = Math.max(0, Math.min(hit - SNIPPET_LENGTH / 4, flat.length - SNIPPET_LENGTH));
+  const end = start + SNIPPET_LENGTH;
+
+  return `${start > 0 ? '…' : ''}${flat.slice(start, end).trim()}${end < flat.length ? '…' : ''}`;
+}
+
+// Semantic matches shaped like text hits, with discussion and project names looked up.
+// The search itself is limited to projects the user can access, before the limit is applied.
+async function semanticSearch(query: string, limit: number, userId: string, projectId?: string): Promise<TextSearchRow[]> {
+  const settings = await storage.getSettings(userId);
+  const embeddings = getEmbeddingProvider((settings as any)?.apiKeys);
+  const embedding = await embeddings.embed(query);
+  const matches = await storage.findSimilarMemories(embedding, embeddings.model, {
+    projectId,
+    userId,
+    threshold: SEMANTIC_THRESHOLD,
+    limit
+  });
+
+  const rows: TextSearchRow[] = [];
+  for (const match of matches) {
+    if (!match.discussionId) continue;
+    const discussion = await storage.getDiscussion(match.discussionId);
+    if (!discussion) continue;
+    const project = await storage.getProject(discussion.projectId);
+    if (!project) continue;
+
+    rows.push({
+      type: 'message',
+      // Memories stored before messages were linked fall back to the memory id and open the discussion only
+      id: match.messageId ?? match.id,
+      title: discussion.name,
+      content: match.content,
+      score: match.similarity,
+      projectId: discussion.projectId,
+      projectName: project.name,
+      discussionId: discussion.id,
+      sender: match.llm,
+      createdAt: match.createdAt
+    });
+  }
+  return rows;
+}
+
+export async function search({ q, limit, projectId }: SearchQuery, userId: string): Promise<SearchResult[]> {
+  const [textRows, semanticRows] = await Promise.all([
+    storage.searchText(q, { limit, projectId, userId }),
+    // Search still works on full text alone if the embedding provider is unavailable
+    semanticSearch(q, limit, userId, projectId).catch(error => {
+      console.error('[Search] Semantic search failed:', error);
+      return [] as TextSearchRow[];
+    })
+  ]);
+
+  const terms = queryTerms(q);
+  const results = new Map<string, SearchResult>();
+
+  // Each list is already ranked; fuse them by reciprocal rank so hits found both ways rise to the top
+  const addRanked = (rows: TextSearchRow[], match: 'text' | 'semantic') => {
+    rows.forEach((row, rank) => {
+      const key = `${row.type}:${row.id}`;
+      const existing = results.get(key);
+      const score = 1 / (RRF_K + rank + 1);
+
+      if (existing) {
+        existing.score += score;
+        if (existing.match !== match) existing.match = 'both';
+        return;
+      }
+
+      results.set(key, {
+        type: row.type,
+        id: row.id,
+        title: row.title,
+        snippet: makeSnippet(row.content, terms),
+        score,
+        match,
+        projectId: row.projectId,
+        projectName: row.projectName,
+        discussionId: row.discussionId,
+        sender: row.sender,
+        createdAt: row.createdAt?.toISOString()
+      });
+    });
+  };
+
+  for (const type of ['message', 'discussion', 'context'] as const) {
+    addRanked(textRows.filter(row => row.type === type), 'text');
+  }
+  addRanked(semanticRows, 'semantic');
+
+  return Array.from(results.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
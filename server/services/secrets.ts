@@ -0,0 +1,217 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import type { UserSettings } from "@shared/schema";
+
+// Stored API keys - envelope encryption of `user_settings.api_keys`. Each write seals the
+// whole apiKeys object with a fresh data key, and the data key is wrapped with the server
+// master key (API_KEY_ENCRYPTION_KEY). Rotating the master key only rewraps data keys.
+// Storage decrypts on read, so the rest of the server sees plain apiKeys.
+
+type ApiKeys = Record<string, any>;
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+// api_keys as stored: { $encrypted: { version, keyId, dataKey, payload } }
+interface SealedApiKeys {
+  $encrypted: {
+    version: 1;
+    keyId: string; // Master key that wrapped dataKey
+    dataKey: string;
+    payload: string;
+  };
+}
+
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const MASK = "••••••••";
+
+interface MasterKeys {
+  current: MasterKey;
+  all: Map<string, MasterKey>;
+}
+
+// null once resolved without a configured key
+let masterKeys: MasterKeys | null | undefined;
+
+function deriveMasterKey(secret: string): MasterKey {
+  if (secret.length < 32) {
+    throw new Error("API key encryption keys must be at least 32 characters");
+  }
+  const key = createHash("sha256").update(secret).digest();
+  return { id: createHash("sha256").update(key).digest("hex").slice(0, 12), key };
+}
+
+// API_KEY_ENCRYPTION_KEY seals new writes; comma-separated API_KEY_ENCRYPTION_KEY_PREVIOUS keys
+// still open records sealed before a rotation. Without a configured key (development only) API keys
+// stay in plain text - a generated key would not survive a restart and take the saved keys with it.
+function getMasterKeys(): MasterKeys | null {
+  if (masterKeys !== undefined) return masterKeys;
+
+  const secret = process.env.API_KEY_ENCRYPTION_KEY;
+  if (!secret) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("API_KEY_ENCRYPTION_KEY must be set in production");
+    }
+    console.warn("[Secrets] API_KEY_ENCRYPTION_KEY is not set - API keys are stored unencrypted");
+    masterKeys = null;
+    return masterKeys;
+  }
+  const current = deriveMasterKey(secret);
+  const previous = (process.env.API_KEY_ENCRYPTION_KEY_PREVIOUS ?? "")
+    .split(",")
+    .map(value => value.trim())
+    .filter(Boolean)
+    .map(deriveMasterKey);
+
+  masterKeys = { current, all: new Map([...previous, current].map(key => [key.id, key])) };
+  return masterKeys;
+}
+
+// Fails at startup rather than on the first settings read when the master key is misconfigured.
+// False when no master key is configured.
+export function checkApiKeyEncryption(): boolean {
+  return getMasterKeys() !== null;
+}
+
+// base64(iv | auth tag | ciphertext)
+function encrypt(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64");
+}
+
+function decrypt(key: Buffer, sealed: string): Buffer {
+  const data = Buffer.from(sealed, "base64");
+  const decipher = createDecipheriv(ALGORITHM, key, data.subarray(0, IV_LENGTH));
+  decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+}
+
+function isSealed(stored: unknown): stored is SealedApiKeys {
+  return !!stored && typeof stored === "object" && (stored as SealedApiKeys).$encrypted?.version === 1;
+}
+
+function unwrapDataKey(sealed: SealedApiKeys): Buffer {
+  const keys = getMasterKeys();
+  if (!keys) {
+    throw new Error("API_KEY_ENCRYPTION_KEY is not set");
+  }
+  const masterKey = keys.all.get(sealed.$encrypted.keyId);
+  if (!masterKey) {
+    throw new Error(`No master key with id ${sealed.$encrypted.keyId} - set it in API_KEY_ENCRYPTION_KEY_PREVIOUS`);
+  }
+  return decrypt(masterKey.key, sealed.$encrypted.dataKey);
+}
+
+function wrapDataKey(current: MasterKey, dataKey: Buffer, payload: string): SealedApiKeys {
+  return { $encrypted: { version: 1, keyId: current.id, dataKey: encrypt(current.key, dataKey), payload } };
+}
+
+// Plain apiKeys when no master key is configured
+export function encryptApiKeys(apiKeys: unknown): SealedApiKeys | ApiKeys {
+  const keys = getMasterKeys();
+  if (!keys) return (apiKeys as ApiKeys) ?? {};
+  const dataKey = randomBytes(32);
+  return wrapDataKey(keys.current, dataKey, encrypt(dataKey, Buffer.from(JSON.stringify(apiKeys ?? {}))));
+}
+
+// Rows written before encryption existed are plain objects and pass through. Keys that cannot
+// be decrypted read as unset, so the user is asked for them again instead of every request failing.
+export function decryptApiKeys(stored: unknown): ApiKeys {
+  if (!isSealed(stored)) return (stored as ApiKeys) ?? {};
+  try {
+    return JSON.parse(decrypt(unwrapDataKey(stored), stored.$encrypted.payload).toString());
+  } catch (error) {
+    console.error("[Secrets] Could not decrypt stored API keys:", (error as Error).message);
+    return {};
+  }
+}
+
+export function decryptSettings(settings: UserSettings): UserSettings {
+  return { ...settings, apiKeys: decryptApiKeys(settings.apiKeys) };
+}
+
+// Plain-text rows with keys, and rows sealed under a previous master key that is still configured.
+// Nothing is re-encrypted without a master key.
+export function needsReencryption(stored: unknown): boolean {
+  const keys = getMasterKeys();
+  if (!keys) return false;
+  if (!isSealed(stored)) {
+    return !!stored && typeof stored === "object" && Object.keys(stored).length > 0;
+  }
+  const { current, all } = keys;
+  return stored.$encrypted.keyId !== current.id && all.has(stored.$encrypted.keyId);
+}
+
+// Seals plain-text rows and rewraps the data key of sealed ones under the current master key
+export function reencryptApiKeys(stored: unknown): SealedApiKeys | ApiKeys {
+  const keys = getMasterKeys();
+  if (!keys || !isSealed(stored)) return encryptApiKeys(stored);
+  return wrapDataKey(keys.current, unwrapDataKey(stored), stored.$encrypted.payload);
+}
+
+// "••••••••" plus the last four characters of longer keys
+export function maskSecret(value: string): string {
+  return value.length > 12 ? `${MASK}${value.slice(-4)}` : MASK;
+}
+
+// A masked value sent back unchanged stands for the stored secret
+export function unmaskSecret(value: unknown, stored: unknown): unknown {
+  return typeof stored === "string" && stored && value === maskSecret(stored) ? stored : value;
+}
+
+// Credentials in apiKeys are each provider's `key` (embeddings included), plus `custom[].key` and every
+// `custom[].headers` value, since extra headers usually carry auth. Custom endpoints are matched to
+// their stored counterpart by id and headers by name.
+function mapCredentials(apiKeys: ApiKeys, fn: (key: unknown, storedKey: unknown) => unknown, stored: ApiKeys = {}): ApiKeys {
+  const withKey = (config: ApiKeys, key: unknown) => {
+    const { key: _key, ...rest } = config;
+    return key === undefined ? rest : { ...rest, key };
+  };
+
+  const mapCustom = (config: ApiKeys) => {
+    const storedConfig = Array.isArray(stored.custom) ? stored.custom.find((c: ApiKeys) => c?.id === config?.id) : undefined;
+    const mapped = withKey(config, fn(config?.key, storedConfig?.key));
+    if (!config?.headers || typeof config.headers !== "object") return mapped;
+    return {
+      ...mapped,
+      headers: Object.fromEntries(Object.entries(config.headers).map(([name, value]) => [name, fn(value, storedConfig?.headers?.[name])]))
+    };
+  };
+
+  return Object.fromEntries(Object.entries(apiKeys ?? {}).map(([name, value]) => {
+    if (name === "custom" && Array.isArray(value)) {
+      return [name, value.map(mapCustom)];
+    }
+    if (value && typeof value === "object" && "key" in value) {
+      return [name, withKey(value, fn(value.key, stored[name]?.key))];
+    }
+    return [name, value];
+  }));
+}
+
+// apiKeys as returned by the API - keys and header values are write-only
+export function maskApiKeys(apiKeys: unknown): ApiKeys {
+  return mapCredentials(apiKeys as ApiKeys, key => typeof key === "string" && key ? maskSecret(key) : key);
+}
+
+// PUT /api/settings: masked keys and header values keep their stored value, anything else replaces it
+export function mergeApiKeys(incoming: unknown, stored: unknown): ApiKeys {
+  return mapCredentials(incoming as ApiKeys, unmaskSecret, (stored as ApiKeys) ?? {});
+}
+
+// Field and header names such as key, apiKeys, x-api-key, passwordHash, x-auth-token or Authorization
+const SECRET_FIELD = /^(key|cookie)$|(api[-_]?keys?|secret|password|passwordHash|token|authorization)$/i;
+
+// Copy of a JSON value with credential-like fields blanked out, for logging
+export function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactSecrets);
+  if (!value || typeof value !== "object" || value instanceof Date) return value;
+  return Object.fromEntries(Object.entries(value).map(([name, field]) =>
+    [name, SECRET_FIELD.test(name) && field != null ? "[redacted]" : redactSecrets(field)]
+  ));
+}
@@ -1,28 +1,119 @@
-import OpenAI from 'openai';
+import { companionConfigSchema, type CompanionConfig, type Discussion, type PatternScope, type SemanticMemory } from '@shared/schema';
+import { storage, type SemanticMemoryFilter } from '../storage';
+import { gauge } from './prometheus';
+import type { EmbeddingProvider } from './embeddings';
 
-// Memory item with semantic embedding
-interface MemoryItem {
-  id: string;
-  content: string;
-  embedding: number[];
-  metadata: {
-    llm: string;
-    phase: 'plasma' | 'gas' | 'liquid' | 'solid';
-    breathCount: number;
-    patterns: string[];
-    timestamp: Date;
+type Phase = 'plasma' | 'gas' | 'liquid' | 'solid';
+
+// Ids a memory is tagged with, or a subset of them to search within
+export type MemoryScope = Pick<SemanticMemoryFilter, 'discussionId' | 'projectId' | 'workspaceId' | 'userId'>;
+
+// Retention: newest memories kept per discussion, and maximum age of any memory
+const MAX_MEMORIES_PER_DISCUSSION = 500;
+const MEMORY_RETENTION_DAYS = 90;
+const AGE_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+let lastAgePrune = 0;
+
+const REINDEX_BATCH_SIZE = 50;
+
+// Search scopes already re-indexed, by scope, model and dimension. The embedding provider is a
+// per-user setting, so each user's scope is re-indexed with their own model.
+const indexedScopes = new Set<string>();
+const reindexing = new Map<string, Promise<void>>();
+
+gauge('grand_central_semantic_memories', 'Stored semantic memories, by phase', async () =>
+  Object.entries((await getMemoryStats()).phaseDistribution).map(([phase, value]) => ({ labels: { phase }, value }))
+);
+
+// Re-embed the memories in `scope` stored with another model or dimension so they stay searchable.
+// The scope must name a user, so only memories of projects they can access are sent to their provider.
+export async function reindexMemories(provider: EmbeddingProvider, dimensions: number, scope: MemoryScope): Promise<number> {
+  if (!scope.userId) return 0;
+  let reindexed = 0;
+
+  for (;;) {
+    const stale = await storage.getStaleSemanticMemories(provider.model, dimensions, REINDEX_BATCH_SIZE, scope);
+    if (stale.length === 0) break;
+
+    for (const memory of stale) {
+      await storage.updateSemanticMemoryEmbedding(memory.id, await provider.embed(memory.content), provider.model);
+      reindexed++;
+    }
+  }
+
+  if (reindexed > 0) {
+    console.log(`[Semantic Memory] Re-indexed ${reindexed} memories with ${provider.model} (${dimensions} dimensions)`);
+  }
+  return reindexed;
+}
+
+// Re-index a search scope the first time it is searched with a model/dimension (e.g. after the
+// user switches embedding providers), before the search runs
+async function ensureIndexed(provider: EmbeddingProvider, dimensions: number, scope: MemoryScope): Promise<void> {
+  if (!scope.userId) return;
+  const key = JSON.stringify([scope.userId, scope.discussionId, scope.projectId, scope.workspaceId, provider.model, dimensions]);
+  if (indexedScopes.has(key)) return;
+
+  let running = reindexing.get(key);
+  if (!running) {
+    running = reindexMemories(provider, dimensions, scope)
+      .then(() => { indexedScopes.add(key); })
+      .catch(error => console.error('[Semantic Memory] Re-index failed:', error))
+      .finally(() => { reindexing.delete(key); });
+    reindexing.set(key, running);
+  }
+  await running;
+}
+
+// Ids a discussion's memories are tagged with
+export async function getMemoryTags(discussion: Discussion): Promise<MemoryScope> {
+  const project = await storage.getProject(discussion.projectId);
+  return {
+    discussionId: discussion.id,
+    projectId: discussion.projectId,
+    workspaceId: project?.workspaceId ?? undefined
   };
 }
 
-// In-memory storage for semantic memories
-const memories: MemoryItem[] = [];
+// Narrow a discussion's tags to the memories a pattern search should compare against.
+// Projects outside a workspace fall back to project scope, and every scope, "global" included,
+// stays within the projects the user can access.
+export function getScopeFilter(tags: MemoryScope, scope: PatternScope, userId: string): MemoryScope {
+  switch (scope) {
+    case 'discussion':
+      return { discussionId: tags.discussionId, userId };
+    case 'project':
+      return { projectId: tags.projectId, userId };
+    case 'workspace':
+      return tags.workspaceId ? { workspaceId: tags.workspaceId, userId } : { projectId: tags.projectId, userId };
+    default:
+      return { userId };
+  }
+}
+
+// Pattern detection settings from the companion config, with defaults for older saved configs
+export function getPatternSettings(
+  companionConfig: unknown
+): Pick<CompanionConfig, 'patternScope' | 'patternThreshold' | 'minPatternMatches' | 'patternLabels'> {
+  const parsed = companionConfigSchema.safeParse(companionConfig ?? {});
+  const { patternScope, patternThreshold, minPatternMatches, patternLabels } = parsed.success ? parsed.data : companionConfigSchema.parse({});
+  return { patternScope, patternThreshold, minPatternMatches, patternLabels };
+}
+
+async function pruneMemories(discussionId?: string): Promise<void> {
+  const now = Date.now();
+  const pruneByAge = now - lastAgePrune >= AGE_PRUNE_INTERVAL_MS;
+  if (pruneByAge) lastAgePrune = now;
 
-// Calculate cosine similarity between two vectors
-function cosineSimilarity(a: number[], b: number[]): number {
-  const dotProduct = a.reduce((sum, val, i) => sum + val * b[i], 0);
-  const magnitudeA = Math.sqrt(a.reduce((sum, val) => sum + val * val, 0));
-  const magnitudeB = Math.sqrt(b.reduce((sum, val) => sum + val * val, 0));
-  return dotProduct / (magnitudeA * magnitudeB);
+  const removed = await storage.pruneSemanticMemories({
+    discussionId,
+    keep: MAX_MEMORIES_PER_DISCUSSION,
+    before: pruneByAge ? new Date(now - MEMORY_RETENTION_DAYS * 24 * 60 * 60 * 1000) : undefined
+  });
+  if (removed > 0) {
+    console.log(`[Semantic Memory] Pruned ${removed} memories`);
+  }
 }
 
 // Store a memory with semantic embedding
@@ -30,81 +121,80 @@ export async function storeMemory(
   llmId: string,
   message: string,
   context: {
-    currentPhase: 'plasma' | 'gas' | 'liquid' | 'solid';
+    currentPhase: Phase;
     breathNumber: number;
     detectedPatterns: string[];
+    tags?: MemoryScope;
+    messageId?: string; // saved message the memory was taken from
   },
-  apiKey: string
+  embeddings: EmbeddingProvider
 ): Promise<void> {
   try {
-    const openai = new OpenAI({ apiKey });
-    
     // Generate embedding for semantic search
-    const embeddingResponse = await openai.embeddings.create({
-      model: 'text-embedding-3-small',
-      input: message,
-    });
-    
-    const embedding = embeddingResponse.data[0].embedding;
-    
-    // Store memory
-    const memory: MemoryItem = {
-      id: `${llmId}-${Date.now()}`,
+    const embedding = await embeddings.embed(message);
+
+    await storage.createSemanticMemory({
+      ...context.tags,
+      messageId: context.messageId,
+      llm: llmId,
       content: message,
       embedding,
-      metadata: {
-        llm: llmId,
-        phase: context.currentPhase,
-        breathCount: context.breathNumber,
-        patterns: context.detectedPatterns,
-        timestamp: new Date()
-      }
-    };
-    
-    memories.push(memory);
+      embeddingModel: embeddings.model,
+      phase: context.currentPhase,
+      breathCount: context.breathNumber,
+      patterns: context.detectedPatterns
+    });
     console.log(`[Semantic Memory] Stored memory for ${llmId} in phase ${context.currentPhase}`);
+
+    await pruneMemories(context.tags?.discussionId);
   } catch (error) {
     console.error('[Semantic Memory] Error storing memory:', error);
   }
 }
 
-// Find patterns using semantic search
+// A stored memory similar to a pattern query
+export interface PatternMatch {
+  content: string;
+  similarity: number; // to the query
+  embedding?: number[];
+  metadata: any;
+}
+
+// Find patterns using semantic search. The similarity search runs in the database;
+// `scope` restricts it to a discussion, project, workspace or the projects a user can access
+// (empty searches everything).
 export async function findPatterns(
   query: string,
-  apiKey: string,
+  embeddings: EmbeddingProvider,
   threshold: number = 0.8,
-  limit: number = 5
-): Promise<Array<{ content: string; similarity: number; metadata: any }>> {
+  limit: number = 5,
+  scope: MemoryScope = {}
+): Promise<PatternMatch[]> {
   try {
-    if (memories.length === 0) {
-      return [];
-    }
-    
-    const openai = new OpenAI({ apiKey });
-    
     // Generate embedding for query
-    const embeddingResponse = await openai.embeddings.create({
-      model: 'text-embedding-3-small',
-      input: query,
-    });
-    
-    const queryEmbedding = embeddingResponse.data[0].embedding;
-    
-    // Calculate similarities
-    const results = memories.map(memory => ({
-      content: memory.content,
-      similarity: cosineSimilarity(queryEmbedding, memory.embedding),
-      metadata: memory.metadata
+    const queryEmbedding = await embeddings.embed(query);
+    await ensureIndexed(embeddings, queryEmbedding.length, scope);
+
+    const matches = await storage.findSimilarMemories(queryEmbedding, embeddings.model, { ...scope, threshold, limit, withEmbeddings: true });
+    const results = matches.map(match => ({
+      content: match.content,
+      similarity: match.similarity,
+      embedding: match.embedding,
+      metadata: {
+        llm: match.llm,
+        messageId: match.messageId,
+        phase: match.phase,
+        breathCount: match.breathCount,
+        patterns: match.patterns,
+        timestamp: match.createdAt,
+        discussionId: match.discussionId,
+        projectId: match.projectId,
+        workspaceId: match.workspaceId
+      }
     }));
-    
-    // Filter by threshold and sort by similarity
-    const filteredResults = results
-      .filter(r => r.similarity >= threshold)
-      .sort((a, b) => b.similarity - a.similarity)
-      .slice(0, limit);
-    
-    console.log(`[Semantic Memory] Found ${filteredResults.length} patterns for query`);
-    return filteredResults;
+
+    console.log(`[Semantic Memory] Found ${results.length} patterns for query`);
+    return results;
   } catch (error) {
     console.error('[Semantic Memory] Error finding patterns:', error);
     return [];
@@ -112,33 +202,33 @@ export async function findPatterns(
 }
 
 // Get all memories for a specific phase
-export function getMemoriesByPhase(phase: 'plasma' | 'gas' | 'liquid' | 'solid'): MemoryItem[] {
-  return memories.filter(m => m.metadata.phase === phase);
+export async function getMemoriesByPhase(phase: Phase, scope: SemanticMemoryFilter = {}): Promise<SemanticMemory[]> {
+  return storage.getSemanticMemories({ ...scope, phase });
 }
 
-// Get recent memories
-export function getRecentMemories(count: number = 10): MemoryItem[] {
-  return memories.slice(-count);
+// Get recent memories, newest first
+export async function getRecentMemories(count: number = 10, scope: SemanticMemoryFilter = {}): Promise<SemanticMemory[]> {
+  return storage.getSemanticMemories({ ...scope, limit: count });
 }
 
-// Clear all memories (for testing)
-export function clearMemories(): void {
-  memories.length = 0;
-  console.log('[Semantic Memory] Cleared all memories');
+// Clear memories, optionally for one discussion or project (for testing)
+export async function clearMemories(scope: SemanticMemoryFilter = {}): Promise<void> {
+  await storage.deleteSemanticMemories(scope);
+  console.log('[Semantic Memory] Cleared memories');
 }
 
 // Get memory stats
-export function getMemoryStats() {
-  const phaseDistribution = {
-    plasma: memories.filter(m => m.metadata.phase === 'plasma').length,
-    gas: memories.filter(m => m.metadata.phase === 'gas').length,
-    liquid: memories.filter(m => m.metadata.phase === 'liquid').length,
-    solid: memories.filter(m => m.metadata.phase === 'solid').length,
-  };
-  
+export async function getMemoryStats(scope: SemanticMemoryFilter = {}) {
+  const stats = await storage.getSemanticMemoryStats(scope);
+
   return {
-    totalMemories: memories.length,
-    phaseDistribution,
-    latestBreathCount: memories.length > 0 ? memories[memories.length - 1].metadata.breathCount : 0
+    totalMemories: stats.total,
+    phaseDistribution: {
+      plasma: stats.phaseDistribution.plasma ?? 0,
+      gas: stats.phaseDistribution.gas ?? 0,
+      liquid: stats.phaseDistribution.liquid ?? 0,
+      solid: stats.phaseDistribution.solid ?? 0,
+    },
+    latestBreathCount: stats.latestBreathCount
   };
 }
@@ -0,0 +1,33 @@
+import { projectBudgetSchema, type BudgetStatus, type Project } from "@shared/schema";
+import { storage } from "../storage";
+
+// Project budgets - compares a project's LLM spend (summed from priced `llm_call`
+// metrics) against the budget set on the project
+
+function getPeriodStart(period: BudgetStatus['period'], now = new Date()): Date | undefined {
+  switch (period) {
+    case 'day':
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    case 'month':
+      return new Date(now.getFullYear(), now.getMonth(), 1);
+    default:
+      return undefined;
+  }
+}
+
+// Null when the project has no budget set
+export async function getBudgetStatus(project: Project): Promise<BudgetStatus | null> {
+  const parsed = projectBudgetSchema.safeParse(project.budget);
+  if (!parsed.success) return null;
+
+  const budget = parsed.data;
+  const [spend] = await storage.getSpend('project', { since: getPeriodStart(budget.period), projectId: project.id });
+  const spentUsd = spend?.costUsd ?? 0;
+
+  return { ...budget, spentUsd, exceeded: spentUsd >= budget.limitUsd };
+}
+
+export async function checkProjectBudget(projectId: string): Promise<BudgetStatus | null> {
+  const project = await storage.getProject(projectId);
+  return project ? getBudgetStatus(project) : null;
+}
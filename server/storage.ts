@@ -1,6 +1,14 @@
 import { 
+  type User,
+  type InsertUser,
   type Workspace,
   type InsertWorkspace,
+  type WorkspaceMember,
+  type InsertWorkspaceMember,
+  type WorkspaceInvite,
+  type InsertWorkspaceInvite,
+  type ShareLink,
+  type InsertShareLink,
   type Project, 
   type InsertProject, 
   type Discussion, 
@@ -17,7 +25,18 @@ import {
   type InsertAgent,
   type Metric,
   type InsertMetric,
+  type MetricBucket,
+  type MetricSeriesType,
+  type SemanticMemory,
+  type InsertSemanticMemory,
+  type Pattern,
+  type InsertPattern,
+  type SearchResultType,
+  users,
   workspaces,
+  workspaceMembers,
+  workspaceInvites,
+  shareLinks,
   projects,
   discussions,
   messages,
@@ -26,30 +45,130 @@ import {
   globalContext,
   companionAgent,
   agents,
-  metrics
+  metrics,
+  semanticMemories,
+  patterns
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc } from "drizzle-orm";
+import { MemStorage } from "./mem-storage";
+import { decryptSettings, encryptApiKeys, needsReencryption, reencryptApiKeys } from "./services/secrets";
+import { eq, desc, asc, and, or, gte, lt, lte, inArray, isNull, sql, getTableColumns, type SQL } from "drizzle-orm";
+
+// Dimensions LLM spend can be grouped by
+export type SpendDimension = 'provider' | 'project' | 'discussion' | 'day';
+
+// Summed cost and tokens of priced llm_call metrics for one group
+export interface SpendRow {
+  key: string;
+  costUsd: number;
+  tokens: number;
+  calls: number;
+}
+
+// Raw per-bucket aggregates for a metrics series; `time` is the bucket start in epoch ms
+export type MetricSeriesRow = { time: number } & Record<string, number>;
+
+export interface MetricSeriesFilter {
+  bucket: MetricBucket;
+  from: Date;
+  to: Date;
+  provider?: string;
+  projectId?: string;
+  discussionId?: string;
+  userId?: string; // Only metrics of projects this user can access
+}
+
+// User-scoped metric queries; without userId they cover every project
+export interface SpendFilter {
+  since?: Date;
+  projectId?: string;
+  userId?: string;
+}
+
+// A workspace member with their username, for the members list
+export type WorkspaceMemberWithUser = WorkspaceMember & { username: string };
+
+export interface SemanticMemoryFilter {
+  discussionId?: string;
+  projectId?: string;
+  workspaceId?: string;
+  phase?: string;
+  userId?: string; // Only memories of projects this user can access
+}
+
+// A stored memory ranked by cosine similarity to a query embedding
+export type SemanticMemoryMatch = Omit<SemanticMemory, 'embedding'> & { similarity: number; embedding?: number[] };
+
+export interface SemanticMemoryStats {
+  total: number;
+  phaseDistribution: Record<string, number>;
+  latestBreathCount: number;
+}
+
+// A full-text hit before snippets and score fusion; `content` is the matched text
+export interface TextSearchRow {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  content: string;
+  score: number;
+  projectId: string;
+  projectName: string;
+  discussionId?: string;
+  sender?: string;
+  createdAt: Date | null;
+}
 
 // Project and discussion management interface
 export interface IStorage {
+  // User operations
+  getUser(id: string): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  createUser(user: InsertUser): Promise<User>;
+  getUserCount(): Promise<number>;
+  // Hands data created before accounts existed (no owner) to a user
+  claimUnownedData(userId: string): Promise<void>;
+
   // Workspace operations
   getWorkspace(id: string): Promise<Workspace | undefined>;
-  getAllWorkspaces(): Promise<Workspace[]>;
+  // Workspaces the user owns or is a member of
+  getAllWorkspaces(userId: string): Promise<Workspace[]>;
   createWorkspace(workspace: InsertWorkspace): Promise<Workspace>;
   deleteWorkspace(id: string): Promise<void>;
+
+  // Workspace membership operations
+  getWorkspaceMember(workspaceId: string, userId: string): Promise<WorkspaceMember | undefined>;
+  getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMemberWithUser[]>;
+  // Adds the member, or changes the role of an existing one
+  upsertWorkspaceMember(member: InsertWorkspaceMember): Promise<WorkspaceMember>;
+  removeWorkspaceMember(workspaceId: string, userId: string): Promise<void>;
+  getWorkspaceInvites(workspaceId: string): Promise<WorkspaceInvite[]>;
+  getWorkspaceInviteByToken(token: string): Promise<WorkspaceInvite | undefined>;
+  createWorkspaceInvite(invite: InsertWorkspaceInvite): Promise<WorkspaceInvite>;
+  deleteWorkspaceInvite(id: string): Promise<void>;
   
   // Project operations
   getProject(id: string): Promise<Project | undefined>;
-  getAllProjects(): Promise<Project[]>;
+  // Projects the user owns, plus every project in a workspace they own or belong to
+  getAllProjects(userId: string): Promise<Project[]>;
   getProjectsByWorkspace(workspaceId: string): Promise<Project[]>;
   createProject(project: InsertProject): Promise<Project>;
   updateProject(id: string, updates: Partial<InsertProject>): Promise<Project>;
-  cloneProject(id: string, newName: string): Promise<Project>;
+  // The copy belongs to ownerId and stays in the original's workspace
+  cloneProject(id: string, newName: string, ownerId: string): Promise<Project>;
   deleteProject(id: string): Promise<void>;
+
+  // Share link operations
+  getShareLink(id: string): Promise<ShareLink | undefined>;
+  getShareLinkByToken(token: string): Promise<ShareLink | undefined>;
+  getShareLinksByProject(projectId: string): Promise<ShareLink[]>;
+  createShareLink(link: InsertShareLink): Promise<ShareLink>;
+  deleteShareLink(id: string): Promise<void>;
   
   // Discussion operations
   getDiscussion(id: string): Promise<Discussion | undefined>;
+  // Discussions of every project the user can access
+  getDiscussions(userId: string): Promise<Discussion[]>;
   getDiscussionsByProject(projectId: string): Promise<Discussion[]>;
   createDiscussion(discussion: InsertDiscussion): Promise<Discussion>;
   updateDiscussion(id: string, updates: Partial<InsertDiscussion>): Promise<Discussion>;
@@ -68,41 +187,147 @@ export interface IStorage {
   createContextItem(item: InsertContextItem): Promise<ContextItem>;
   deleteContextItem(id: string): Promise<void>;
   
-  // Settings operations
-  getSettings(): Promise<UserSettings | undefined>;
-  updateSettings(settings: Partial<InsertUserSettings>): Promise<UserSettings>;
+  // Settings operations - apiKeys are encrypted at rest and read back decrypted
+  getSettings(userId: string): Promise<UserSettings | undefined>;
+  getAllSettings(): Promise<UserSettings[]>;
+  updateSettings(userId: string, settings: Partial<InsertUserSettings>): Promise<UserSettings>;
+  // Encrypts plain-text apiKeys and rewraps those sealed under a previous master key; returns the rows rewritten
+  reencryptApiKeys(): Promise<number>;
   
   // Global context operations
-  getGlobalContext(): Promise<GlobalContext[]>;
+  getGlobalContext(ownerId: string): Promise<GlobalContext[]>;
   createGlobalContext(item: InsertGlobalContext): Promise<GlobalContext>;
   deleteGlobalContext(id: string): Promise<void>;
-  getGlobalContextByType(type: string): Promise<GlobalContext[]>;
+  getGlobalContextByType(ownerId: string, type: string): Promise<GlobalContext[]>;
   
   // Companion agent operations
-  getCompanionData(): Promise<any | undefined>;
-  updateCompanionData(data: { observations?: any[]; suggestions?: any[]; patternMemory?: any }): Promise<any>;
-  addCompanionObservation(observation: any): Promise<void>;
-  addCompanionSuggestion(suggestion: any): Promise<void>;
+  getCompanionData(userId: string): Promise<any | undefined>;
+  updateCompanionData(userId: string, data: { observations?: any[]; suggestions?: any[]; patternMemory?: any }): Promise<any>;
+  addCompanionObservation(userId: string, observation: any): Promise<void>;
+  addCompanionSuggestion(userId: string, suggestion: any): Promise<void>;
   
   // Agent methods
-  getAgents(): Promise<Agent[]>;
+  getAgents(ownerId: string): Promise<Agent[]>;
   createAgent(agent: InsertAgent): Promise<Agent>;
   deleteAgent(id: string): Promise<void>;
+  updateDiscussionAgentsMode(discussionId: string, mode: string): Promise<void>;
   
   // Metrics methods
   getMetrics(): Promise<Metric[]>;
+  getMetricCounts(since: Date, userId?: string): Promise<Record<string, number>>;
+  getMetricAverage(type: string, since: Date, userId?: string): Promise<number>;
+  getSpend(groupBy: SpendDimension, filter?: SpendFilter): Promise<SpendRow[]>;
+  getMetricSeries(type: MetricSeriesType, filter: MetricSeriesFilter): Promise<MetricSeriesRow[]>;
   addMetric(metric: InsertMetric): Promise<Metric>;
+
+  // Semantic memory methods
+  createSemanticMemory(memory: InsertSemanticMemory): Promise<SemanticMemory>;
+  getSemanticMemories(filter?: SemanticMemoryFilter & { limit?: number }): Promise<SemanticMemory[]>;
+  findSimilarMemories(
+    embedding: number[],
+    embeddingModel: string,
+    options: SemanticMemoryFilter & { threshold: number; limit: number; withEmbeddings?: boolean }
+  ): Promise<SemanticMemoryMatch[]>;
+  getSemanticMemoryStats(filter?: SemanticMemoryFilter): Promise<SemanticMemoryStats>;
+  getStaleSemanticMemories(embeddingModel: string, dimensions: number, limit: number, filter: SemanticMemoryFilter): Promise<Pick<SemanticMemory, 'id' | 'content'>[]>;
+  updateSemanticMemoryEmbedding(id: string, embedding: number[], embeddingModel: string): Promise<void>;
+
+  // Search
+  searchText(query: string, options: { limit: number; projectId?: string; userId?: string }): Promise<TextSearchRow[]>;
+  pruneSemanticMemories(options: { discussionId?: string; keep?: number; before?: Date }): Promise<number>;
+  deleteSemanticMemories(filter?: SemanticMemoryFilter): Promise<void>;
+
+  // Pattern methods
+  getPatternsByDiscussion(discussionId: string): Promise<Pattern[]>;
+  createPattern(pattern: InsertPattern): Promise<Pattern>;
+  updatePattern(id: string, updates: Partial<InsertPattern>): Promise<Pattern>;
+}
+
+// Escape LIKE wildcards so user input matches literally
+function likePattern(value: string): string {
+  return `%${value.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+}
+
+function semanticMemoryConditions(filter: SemanticMemoryFilter): SQL | undefined {
+  return and(
+    filter.discussionId ? eq(semanticMemories.discussionId, filter.discussionId) : undefined,
+    filter.projectId ? eq(semanticMemories.projectId, filter.projectId) : undefined,
+    filter.workspaceId ? eq(semanticMemories.workspaceId, filter.workspaceId) : undefined,
+    filter.phase ? eq(semanticMemories.phase, filter.phase) : undefined,
+    filter.userId
+      ? inArray(semanticMemories.projectId, db.select({ id: projects.id }).from(projects).where(accessibleProjects(filter.userId)))
+      : undefined
+  );
+}
+
+// Projects the user can open: their own, and those in workspaces they own or are a member of
+function accessibleProjects(userId: string): SQL {
+  const ownedWorkspaces = db.select({ id: workspaces.id }).from(workspaces).where(eq(workspaces.ownerId, userId));
+  const memberWorkspaces = db.select({ id: workspaceMembers.workspaceId }).from(workspaceMembers).where(eq(workspaceMembers.userId, userId));
+  return or(
+    eq(projects.ownerId, userId),
+    inArray(projects.workspaceId, ownedWorkspaces),
+    inArray(projects.workspaceId, memberWorkspaces)
+  )!;
+}
+
+// Metrics of the projects the user can access
+function accessibleMetrics(userId: string | undefined): SQL | undefined {
+  if (!userId) return undefined;
+  return inArray(metrics.projectId, db.select({ id: projects.id }).from(projects).where(accessibleProjects(userId)));
 }
 
 export class DatabaseStorage implements IStorage {
+  // User operations
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user || undefined;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user || undefined;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await db
+      .insert(users)
+      .values(insertUser)
+      .returning();
+    return user;
+  }
+
+  async getUserCount(): Promise<number> {
+    const [row] = await db.select({ count: sql<number>`count(*)::int` }).from(users);
+    return row?.count ?? 0;
+  }
+
+  async claimUnownedData(userId: string): Promise<void> {
+    await db.update(workspaces).set({ ownerId: userId }).where(isNull(workspaces.ownerId));
+    await db.update(projects).set({ ownerId: userId }).where(isNull(projects.ownerId));
+    await db.update(agents).set({ ownerId: userId }).where(isNull(agents.ownerId));
+    await db.update(globalContext).set({ ownerId: userId }).where(isNull(globalContext.ownerId));
+    if (!await this.getSettings(userId)) {
+      await db.update(userSettings).set({ userId }).where(eq(userSettings.id, "default"));
+    }
+    if (!await this.getCompanionData(userId)) {
+      await db.update(companionAgent).set({ userId }).where(isNull(companionAgent.userId));
+    }
+  }
+
   // Workspace operations
   async getWorkspace(id: string): Promise<Workspace | undefined> {
     const [workspace] = await db.select().from(workspaces).where(eq(workspaces.id, id));
     return workspace || undefined;
   }
 
-  async getAllWorkspaces(): Promise<Workspace[]> {
-    return await db.select().from(workspaces).orderBy(desc(workspaces.createdAt));
+  async getAllWorkspaces(userId: string): Promise<Workspace[]> {
+    const memberWorkspaces = db.select({ id: workspaceMembers.workspaceId }).from(workspaceMembers).where(eq(workspaceMembers.userId, userId));
+    return await db
+      .select()
+      .from(workspaces)
+      .where(or(eq(workspaces.ownerId, userId), inArray(workspaces.id, memberWorkspaces)))
+      .orderBy(desc(workspaces.createdAt));
   }
 
   async createWorkspace(insertWorkspace: InsertWorkspace): Promise<Workspace> {
@@ -117,14 +342,79 @@ export class DatabaseStorage implements IStorage {
     await db.delete(workspaces).where(eq(workspaces.id, id));
   }
 
+  // Workspace membership operations
+  async getWorkspaceMember(workspaceId: string, userId: string): Promise<WorkspaceMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+    return member || undefined;
+  }
+
+  async getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMemberWithUser[]> {
+    return await db
+      .select({ ...getTableColumns(workspaceMembers), username: users.username })
+      .from(workspaceMembers)
+      .innerJoin(users, eq(workspaceMembers.userId, users.id))
+      .where(eq(workspaceMembers.workspaceId, workspaceId))
+      .orderBy(asc(workspaceMembers.createdAt));
+  }
+
+  async upsertWorkspaceMember(member: InsertWorkspaceMember): Promise<WorkspaceMember> {
+    const [saved] = await db
+      .insert(workspaceMembers)
+      .values(member)
+      .onConflictDoUpdate({
+        target: [workspaceMembers.workspaceId, workspaceMembers.userId],
+        set: { role: member.role }
+      })
+      .returning();
+    return saved;
+  }
+
+  async removeWorkspaceMember(workspaceId: string, userId: string): Promise<void> {
+    await db
+      .delete(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+  }
+
+  async getWorkspaceInvites(workspaceId: string): Promise<WorkspaceInvite[]> {
+    return await db
+      .select()
+      .from(workspaceInvites)
+      .where(eq(workspaceInvites.workspaceId, workspaceId))
+      .orderBy(desc(workspaceInvites.createdAt));
+  }
+
+  async getWorkspaceInviteByToken(token: string): Promise<WorkspaceInvite | undefined> {
+    const [invite] = await db.select().from(workspaceInvites).where(eq(workspaceInvites.token, token));
+    return invite || undefined;
+  }
+
+  async createWorkspaceInvite(insertInvite: InsertWorkspaceInvite): Promise<WorkspaceInvite> {
+    const [invite] = await db
+      .insert(workspaceInvites)
+      .values(insertInvite)
+      .returning();
+    return invite;
+  }
+
+  async deleteWorkspaceInvite(id: string): Promise<void> {
+    await db.delete(workspaceInvites).where(eq(workspaceInvites.id, id));
+  }
+
   // Project operations
   async getProject(id: string): Promise<Project | undefined> {
     const [project] = await db.select().from(projects).where(eq(projects.id, id));
     return project || undefined;
   }
 
-  async getAllProjects(): Promise<Project[]> {
-    return await db.select().from(projects).orderBy(desc(projects.createdAt));
+  async getAllProjects(userId: string): Promise<Project[]> {
+    return await db
+      .select()
+      .from(projects)
+      .where(accessibleProjects(userId))
+      .orderBy(desc(projects.createdAt));
   }
 
   async getProjectsByWorkspace(workspaceId: string): Promise<Project[]> {
@@ -152,7 +442,7 @@ export class DatabaseStorage implements IStorage {
     return project;
   }
 
-  async cloneProject(id: string, newName: string): Promise<Project> {
+  async cloneProject(id: string, newName: string, ownerId: string): Promise<Project> {
     // Get original project
     const originalProject = await this.getProject(id);
     if (!originalProject) {
@@ -164,9 +454,11 @@ export class DatabaseStorage implements IStorage {
       .insert(projects)
       .values({
         workspaceId: originalProject.workspaceId,
+        ownerId,
         name: newName,
         description: originalProject.description,
         instructions: originalProject.instructions,
+        promptTemplates: originalProject.promptTemplates,
         isTemplate: false,
         templateSource: id
       })
@@ -191,6 +483,37 @@ export class DatabaseStorage implements IStorage {
     await db.delete(projects).where(eq(projects.id, id));
   }
 
+  // Share link operations
+  async getShareLink(id: string): Promise<ShareLink | undefined> {
+    const [link] = await db.select().from(shareLinks).where(eq(shareLinks.id, id));
+    return link || undefined;
+  }
+
+  async getShareLinkByToken(token: string): Promise<ShareLink | undefined> {
+    const [link] = await db.select().from(shareLinks).where(eq(shareLinks.token, token));
+    return link || undefined;
+  }
+
+  async getShareLinksByProject(projectId: string): Promise<ShareLink[]> {
+    return await db
+      .select()
+      .from(shareLinks)
+      .where(eq(shareLinks.projectId, projectId))
+      .orderBy(desc(shareLinks.createdAt));
+  }
+
+  async createShareLink(insertLink: InsertShareLink): Promise<ShareLink> {
+    const [link] = await db
+      .insert(shareLinks)
+      .values(insertLink)
+      .returning();
+    return link;
+  }
+
+  async deleteShareLink(id: string): Promise<void> {
+    await db.delete(shareLinks).where(eq(shareLinks.id, id));
+  }
+
   // Discussion operations
   async getDiscussion(id: string): Promise<Discussion | undefined> {
     const [discussion] = await db.select().from(discussions).where(eq(discussions.id, id));
@@ -312,40 +635,62 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Settings operations
-  async getSettings(): Promise<UserSettings | undefined> {
-    const [settings] = await db.select().from(userSettings).where(eq(userSettings.id, "default"));
-    return settings || undefined;
+  async getSettings(userId: string): Promise<UserSettings | undefined> {
+    const [settings] = await db.select().from(userSettings).where(eq(userSettings.userId, userId));
+    return settings ? decryptSettings(settings) : undefined;
   }
 
-  async updateSettings(settingsUpdate: Partial<InsertUserSettings>): Promise<UserSettings> {
+  async getAllSettings(): Promise<UserSettings[]> {
+    const settings = await db.select().from(userSettings);
+    return settings.map(decryptSettings);
+  }
+
+  async updateSettings(userId: string, settingsUpdate: Partial<InsertUserSettings>): Promise<UserSettings> {
+    if (settingsUpdate.apiKeys !== undefined) {
+      settingsUpdate = { ...settingsUpdate, apiKeys: encryptApiKeys(settingsUpdate.apiKeys) };
+    }
+
     // First try to get existing settings
-    const existing = await this.getSettings();
+    const [existing] = await db.select({ id: userSettings.id }).from(userSettings).where(eq(userSettings.userId, userId));
     
     if (existing) {
       // Update existing settings
       const [updated] = await db
         .update(userSettings)
         .set({ ...settingsUpdate, updatedAt: new Date() })
-        .where(eq(userSettings.id, "default"))
+        .where(eq(userSettings.userId, userId))
         .returning();
-      return updated;
+      return decryptSettings(updated);
     } else {
       // Create new settings record
       const [created] = await db
         .insert(userSettings)
         .values({ 
-          id: "default",
+          userId,
           ...settingsUpdate,
           updatedAt: new Date()
         })
         .returning();
-      return created;
+      return decryptSettings(created);
     }
   }
 
+  async reencryptApiKeys(): Promise<number> {
+    const rows = await db.select({ id: userSettings.id, apiKeys: userSettings.apiKeys }).from(userSettings);
+    const stale = rows.filter(row => needsReencryption(row.apiKeys));
+    for (const row of stale) {
+      await db.update(userSettings).set({ apiKeys: reencryptApiKeys(row.apiKeys) }).where(eq(userSettings.id, row.id));
+    }
+    return stale.length;
+  }
+
   // Global context operations
-  async getGlobalContext(): Promise<GlobalContext[]> {
-    return await db.select().from(globalContext).orderBy(globalContext.createdAt);
+  async getGlobalContext(ownerId: string): Promise<GlobalContext[]> {
+    return await db
+      .select()
+      .from(globalContext)
+      .where(eq(globalContext.ownerId, ownerId))
+      .orderBy(globalContext.createdAt);
   }
 
   async createGlobalContext(insertItem: InsertGlobalContext): Promise<GlobalContext> {
@@ -360,22 +705,22 @@ export class DatabaseStorage implements IStorage {
     await db.delete(globalContext).where(eq(globalContext.id, id));
   }
 
-  async getGlobalContextByType(type: string): Promise<GlobalContext[]> {
+  async getGlobalContextByType(ownerId: string, type: string): Promise<GlobalContext[]> {
     return await db
       .select()
       .from(globalContext)
-      .where(eq(globalContext.type, type))
+      .where(and(eq(globalContext.ownerId, ownerId), eq(globalContext.type, type)))
       .orderBy(globalContext.createdAt);
   }
 
   // Companion agent operations
-  async getCompanionData(): Promise<any | undefined> {
-    const [companion] = await db.select().from(companionAgent).limit(1);
+  async getCompanionData(userId: string): Promise<any | undefined> {
+    const [companion] = await db.select().from(companionAgent).where(eq(companionAgent.userId, userId));
     return companion || undefined;
   }
 
-  async updateCompanionData(data: { observations?: any[]; suggestions?: any[]; patternMemory?: any }): Promise<any> {
-    const existing = await this.getCompanionData();
+  async updateCompanionData(userId: string, data: { observations?: any[]; suggestions?: any[]; patternMemory?: any }): Promise<any> {
+    const existing = await this.getCompanionData(userId);
     
     if (existing) {
       const [updated] = await db
@@ -387,29 +732,33 @@ export class DatabaseStorage implements IStorage {
     } else {
       const [created] = await db
         .insert(companionAgent)
-        .values(data)
+        .values({ userId, ...data })
         .returning();
       return created;
     }
   }
 
-  async addCompanionObservation(observation: any): Promise<void> {
-    const companion = await this.getCompanionData();
+  async addCompanionObservation(userId: string, observation: any): Promise<void> {
+    const companion = await this.getCompanionData(userId);
     const observations = companion?.observations || [];
     observations.push(observation);
-    await this.updateCompanionData({ observations });
+    await this.updateCompanionData(userId, { observations });
   }
 
-  async addCompanionSuggestion(suggestion: any): Promise<void> {
-    const companion = await this.getCompanionData();
+  async addCompanionSuggestion(userId: string, suggestion: any): Promise<void> {
+    const companion = await this.getCompanionData(userId);
     const suggestions = companion?.suggestions || [];
     suggestions.push(suggestion);
-    await this.updateCompanionData({ suggestions });
+    await this.updateCompanionData(userId, { suggestions });
   }
 
   // Agent methods
-  async getAgents(): Promise<Agent[]> {
-    return await db.select().from(agents).orderBy(agents.createdAt);
+  async getAgents(ownerId: string): Promise<Agent[]> {
+    return await db
+      .select()
+      .from(agents)
+      .where(eq(agents.ownerId, ownerId))
+      .orderBy(agents.createdAt);
   }
 
   async createAgent(agent: InsertAgent): Promise<Agent> {
@@ -424,11 +773,118 @@ export class DatabaseStorage implements IStorage {
     await db.delete(agents).where(eq(agents.id, id));
   }
 
+  // Agents created for a discussion follow its phase
+  async updateDiscussionAgentsMode(discussionId: string, mode: string): Promise<void> {
+    await db.update(agents).set({ currentMode: mode }).where(eq(agents.parentDiscussion, discussionId));
+  }
+
   // Metrics operations
   async getMetrics(): Promise<Metric[]> {
     return await db.select().from(metrics).orderBy(desc(metrics.timestamp));
   }
 
+  // Number of metrics of each type recorded since a point in time
+  async getMetricCounts(since: Date, userId?: string): Promise<Record<string, number>> {
+    const rows = await db
+      .select({ type: metrics.type, count: sql<number>`count(*)::int` })
+      .from(metrics)
+      .where(and(gte(metrics.timestamp, since), accessibleMetrics(userId)))
+      .groupBy(metrics.type);
+    return Object.fromEntries(rows.map(row => [row.type, row.count]));
+  }
+
+  async getMetricAverage(type: string, since: Date, userId?: string): Promise<number> {
+    const [row] = await db
+      .select({ average: sql<number>`coalesce(avg(${metrics.value}), 0)::float` })
+      .from(metrics)
+      .where(and(eq(metrics.type, type), gte(metrics.timestamp, since), accessibleMetrics(userId)));
+    return row?.average ?? 0;
+  }
+
+  // Cost and token totals from the usage stored in llm_call metadata
+  async getSpend(groupBy: SpendDimension, filter: SpendFilter = {}): Promise<SpendRow[]> {
+    const keys: Record<SpendDimension, SQL> = {
+      provider: sql`${metrics.metadata}->>'provider'`,
+      project: sql`${metrics.projectId}`,
+      discussion: sql`${metrics.discussionId}`,
+      day: sql`to_char(${metrics.timestamp}, 'YYYY-MM-DD')`
+    };
+    const key = keys[groupBy];
+    const costUsd = sql<number>`coalesce(sum((${metrics.metadata}->>'costUsd')::float), 0)::float`;
+
+    return await db
+      .select({
+        key: sql<string>`${key}`,
+        costUsd,
+        tokens: sql<number>`coalesce(sum((${metrics.metadata}->>'promptTokens')::int + (${metrics.metadata}->>'completionTokens')::int), 0)::int`,
+        calls: sql<number>`count(*)::int`
+      })
+      .from(metrics)
+      .where(and(
+        eq(metrics.type, 'llm_call'),
+        sql`${metrics.metadata} ? 'costUsd'`,
+        sql`${key} is not null`,
+        filter.since ? gte(metrics.timestamp, filter.since) : undefined,
+        filter.projectId ? eq(metrics.projectId, filter.projectId) : undefined,
+        accessibleMetrics(filter.userId)
+      ))
+      .groupBy(key)
+      .orderBy(desc(costUsd));
+  }
+
+  // Bucketed aggregates: latency percentiles from response_time, call/success counts, or token and cost sums
+  async getMetricSeries(type: MetricSeriesType, filter: MetricSeriesFilter): Promise<MetricSeriesRow[]> {
+    // bucket is one of the validated metricBuckets, so it is safe to inline (GROUP BY needs the same literal)
+    const time = sql<number>`(extract(epoch from date_trunc('${sql.raw(filter.bucket)}', ${metrics.timestamp})) * 1000)::float`;
+
+    const measures: Record<MetricSeriesType, { types: string[]; columns: Record<string, SQL<number>>; where?: SQL }> = {
+      latency: {
+        types: ['response_time'],
+        columns: {
+          p50: sql<number>`percentile_cont(0.5) within group (order by ${metrics.value})::float`,
+          p95: sql<number>`percentile_cont(0.95) within group (order by ${metrics.value})::float`
+        }
+      },
+      errors: {
+        types: ['llm_call', 'llm_success'],
+        columns: {
+          calls: sql<number>`(count(*) filter (where ${metrics.type} = 'llm_call'))::int`,
+          successes: sql<number>`(count(*) filter (where ${metrics.type} = 'llm_success'))::int`
+        }
+      },
+      calls: {
+        types: ['llm_call'],
+        columns: { calls: sql<number>`count(*)::int` }
+      },
+      tokens: {
+        types: ['llm_call'],
+        columns: {
+          tokens: sql<number>`coalesce(sum((${metrics.metadata}->>'promptTokens')::int + (${metrics.metadata}->>'completionTokens')::int), 0)::int`,
+          costUsd: sql<number>`coalesce(sum((${metrics.metadata}->>'costUsd')::float), 0)::float`
+        },
+        where: sql`${metrics.metadata} ? 'costUsd'`
+      }
+    };
+    const { types, columns, where } = measures[type];
+
+    const rows = await db
+      .select({ time, ...columns })
+      .from(metrics)
+      .where(and(
+        inArray(metrics.type, types),
+        gte(metrics.timestamp, filter.from),
+        lte(metrics.timestamp, filter.to),
+        filter.provider ? sql`${metrics.metadata}->>'provider' = ${filter.provider}` : undefined,
+        filter.projectId ? eq(metrics.projectId, filter.projectId) : undefined,
+        filter.discussionId ? eq(metrics.discussionId, filter.discussionId) : undefined,
+        accessibleMetrics(filter.userId),
+        where
+      ))
+      .groupBy(time)
+      .orderBy(time);
+    return rows as MetricSeriesRow[];
+  }
+
   async addMetric(insertMetric: InsertMetric): Promise<Metric> {
     const [metric] = await db
       .insert(metrics)
@@ -437,9 +893,264 @@ export class DatabaseStorage implements IStorage {
     return metric;
   }
 
-  async getDiscussions(): Promise<Discussion[]> {
-    return await db.select().from(discussions).orderBy(desc(discussions.createdAt));
+  // Semantic memory operations
+  async createSemanticMemory(memory: InsertSemanticMemory): Promise<SemanticMemory> {
+    const [created] = await db
+      .insert(semanticMemories)
+      .values(memory)
+      .returning();
+    return created;
+  }
+
+  // Newest first
+  async getSemanticMemories(filter: SemanticMemoryFilter & { limit?: number } = {}): Promise<SemanticMemory[]> {
+    const query = db
+      .select()
+      .from(semanticMemories)
+      .where(semanticMemoryConditions(filter))
+      .orderBy(desc(semanticMemories.createdAt));
+    return await (filter.limit ? query.limit(filter.limit) : query);
+  }
+
+  // Cosine similarity search with pgvector; only embeddings from the same model and dimension are comparable.
+  // Vectors are left out of the rows unless `withEmbeddings` is set.
+  async findSimilarMemories(
+    embedding: number[],
+    embeddingModel: string,
+    options: SemanticMemoryFilter & { threshold: number; limit: number; withEmbeddings?: boolean }
+  ): Promise<SemanticMemoryMatch[]> {
+    const distance = sql`${semanticMemories.embedding} <=> ${JSON.stringify(embedding)}::vector`;
+    const { embedding: embeddingColumn, ...columns } = getTableColumns(semanticMemories);
+
+    return await db
+      .select({
+        ...columns,
+        ...(options.withEmbeddings ? { embedding: embeddingColumn } : {}),
+        similarity: sql<number>`(1 - (${distance}))::float`
+      })
+      .from(semanticMemories)
+      .where(and(
+        eq(semanticMemories.embeddingModel, embeddingModel),
+        sql`vector_dims(${semanticMemories.embedding}) = ${embedding.length}`,
+        semanticMemoryConditions(options),
+        sql`${distance} <= ${1 - options.threshold}`
+      ))
+      .orderBy(distance)
+      .limit(options.limit);
+  }
+
+  async getSemanticMemoryStats(filter: SemanticMemoryFilter = {}): Promise<SemanticMemoryStats> {
+    const conditions = semanticMemoryConditions(filter);
+    const rows = await db
+      .select({ phase: semanticMemories.phase, count: sql<number>`count(*)::int` })
+      .from(semanticMemories)
+      .where(conditions)
+      .groupBy(semanticMemories.phase);
+    const [latest] = await db
+      .select({ breathCount: semanticMemories.breathCount })
+      .from(semanticMemories)
+      .where(conditions)
+      .orderBy(desc(semanticMemories.createdAt))
+      .limit(1);
+
+    return {
+      total: rows.reduce((sum, row) => sum + row.count, 0),
+      phaseDistribution: Object.fromEntries(rows.map(row => [row.phase, row.count])),
+      latestBreathCount: latest?.breathCount ?? 0
+    };
+  }
+
+  // Memories in `filter` embedded with a different model or dimension than the current one, oldest first
+  async getStaleSemanticMemories(embeddingModel: string, dimensions: number, limit: number, filter: SemanticMemoryFilter): Promise<Pick<SemanticMemory, 'id' | 'content'>[]> {
+    return await db
+      .select({ id: semanticMemories.id, content: semanticMemories.content })
+      .from(semanticMemories)
+      .where(and(
+        semanticMemoryConditions(filter),
+        sql`(${semanticMemories.embeddingModel} <> ${embeddingModel} or vector_dims(${semanticMemories.embedding}) <> ${dimensions})`
+      ))
+      .orderBy(semanticMemories.createdAt)
+      .limit(limit);
+  }
+
+  async updateSemanticMemoryEmbedding(id: string, embedding: number[], embeddingModel: string): Promise<void> {
+    await db
+      .update(semanticMemories)
+      .set({ embedding, embeddingModel })
+      .where(eq(semanticMemories.id, id));
+  }
+
+  // Keeps the newest `keep` memories of a discussion and/or drops everything created before `before`
+  async pruneSemanticMemories(options: { discussionId?: string; keep?: number; before?: Date }): Promise<number> {
+    let removed = 0;
+
+    if (options.discussionId && options.keep !== undefined) {
+      const stale = db
+        .select({ id: semanticMemories.id })
+        .from(semanticMemories)
+        .where(eq(semanticMemories.discussionId, options.discussionId))
+        .orderBy(desc(semanticMemories.createdAt))
+        .offset(options.keep);
+      const deleted = await db
+        .delete(semanticMemories)
+        .where(inArray(semanticMemories.id, stale))
+        .returning({ id: semanticMemories.id });
+      removed += deleted.length;
+    }
+
+    if (options.before) {
+      const deleted = await db
+        .delete(semanticMemories)
+        .where(lt(semanticMemories.createdAt, options.before))
+        .returning({ id: semanticMemories.id });
+      removed += deleted.length;
+    }
+
+    return removed;
+  }
+
+  async deleteSemanticMemories(filter: SemanticMemoryFilter = {}): Promise<void> {
+    await db.delete(semanticMemories).where(semanticMemoryConditions(filter));
+  }
+
+  // Pattern operations - strongest first
+  async getPatternsByDiscussion(discussionId: string): Promise<Pattern[]> {
+    return await db
+      .select()
+      .from(patterns)
+      .where(eq(patterns.discussionId, discussionId))
+      .orderBy(desc(patterns.strength), desc(patterns.lastSeenAt));
+  }
+
+  async createPattern(pattern: InsertPattern): Promise<Pattern> {
+    const [created] = await db
+      .insert(patterns)
+      .values(pattern)
+      .returning();
+    return created;
+  }
+
+  async updatePattern(id: string, updates: Partial<InsertPattern>): Promise<Pattern> {
+    const [updated] = await db
+      .update(patterns)
+      .set(updates)
+      .where(eq(patterns.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Postgres full-text search over message content, discussion names and project context items,
+  // ranked with ts_rank. Each kind returns at most `limit` rows.
+  async searchText(query: string, options: { limit: number; projectId?: string; userId?: string }): Promise<TextSearchRow[]> {
+    const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+    const messageVector = sql`to_tsvector('english', ${messages.content})`;
+    const discussionVector = sql`to_tsvector('english', ${discussions.name})`;
+    const contextVector = sql`to_tsvector('english', ${contextItems.name} || ' ' || coalesce(${contextItems.content}, ''))`;
+    // Short names (and stop words) slip past full-text matching, so names also match by substring
+    const nameMatch = sql`${discussions.name} ilike ${likePattern(query)}`;
+    const discussionScore = sql<number>`(ts_rank(${discussionVector}, ${tsQuery}) + case when ${nameMatch} then 1 else 0 end)::float`;
+
+    const [messageRows, discussionRows, contextRows] = await Promise.all([
+      db
+        .select({
+          id: messages.id,
+          title: discussions.name,
+          content: messages.content,
+          score: sql<number>`ts_rank(${messageVector}, ${tsQuery})::float`,
+          projectId: discussions.projectId,
+          projectName: projects.name,
+          discussionId: messages.discussionId,
+          sender: messages.sender,
+          createdAt: messages.createdAt
+        })
+        .from(messages)
+        .innerJoin(discussions, eq(messages.discussionId, discussions.id))
+        .innerJoin(projects, eq(discussions.projectId, projects.id))
+        .where(and(
+          sql`${messageVector} @@ ${tsQuery}`,
+          options.projectId ? eq(discussions.projectId, options.projectId) : undefined,
+          options.userId ? accessibleProjects(options.userId) : undefined
+        ))
+        .orderBy(sql`ts_rank(${messageVector}, ${tsQuery}) desc`)
+        .limit(options.limit),
+      db
+        .select({
+          id: discussions.id,
+          title: discussions.name,
+          content: discussions.name,
+          score: discussionScore,
+          projectId: discussions.projectId,
+          projectName: projects.name,
+          discussionId: discussions.id,
+          createdAt: discussions.createdAt
+        })
+        .from(discussions)
+        .innerJoin(projects, eq(discussions.projectId, projects.id))
+        .where(and(
+          sql`(${discussionVector} @@ ${tsQuery} or ${nameMatch})`,
+          options.projectId ? eq(discussions.projectId, options.projectId) : undefined,
+          options.userId ? accessibleProjects(options.userId) : undefined
+        ))
+        .orderBy(desc(discussionScore), desc(discussions.createdAt))
+        .limit(options.limit),
+      db
+        .select({
+          id: contextItems.id,
+          title: contextItems.name,
+          content: sql<string>`coalesce(${contextItems.content}, ${contextItems.name})`,
+          score: sql<number>`ts_rank(${contextVector}, ${tsQuery})::float`,
+          projectId: contextItems.projectId,
+          projectName: projects.name,
+          createdAt: contextItems.createdAt
+        })
+        .from(contextItems)
+        .innerJoin(projects, eq(contextItems.projectId, projects.id))
+        .where(and(
+          sql`${contextVector} @@ ${tsQuery}`,
+          options.projectId ? eq(contextItems.projectId, options.projectId) : undefined,
+          options.userId ? accessibleProjects(options.userId) : undefined
+        ))
+        .orderBy(sql`ts_rank(${contextVector}, ${tsQuery}) desc`)
+        .limit(options.limit)
+    ]);
+
+    return [
+      ...messageRows.map(row => ({ ...row, type: 'message' as const })),
+      ...discussionRows.map(row => ({ ...row, type: 'discussion' as const })),
+      ...contextRows.map(row => ({ ...row, type: 'context' as const }))
+    ];
+  }
+
+  async getDiscussions(userId: string): Promise<Discussion[]> {
+    return await db
+      .select(getTableColumns(discussions))
+      .from(discussions)
+      .innerJoin(projects, eq(discussions.projectId, projects.id))
+      .where(accessibleProjects(userId))
+      .orderBy(desc(discussions.createdAt));
+  }
+}
+
+// STORAGE_BACKEND=postgres|memory; defaults to Postgres when DATABASE_URL is set and to
+// in-memory storage otherwise, so the app runs on a machine without a database. Production
+// never falls back to memory on its own - it needs DATABASE_URL or an explicit STORAGE_BACKEND=memory.
+export const storageBackend = process.env.STORAGE_BACKEND
+  || (process.env.DATABASE_URL || process.env.NODE_ENV === 'production' ? 'postgres' : 'memory');
+
+function createStorage(backend: string): IStorage {
+  if (backend === 'memory') {
+    console.warn('[Storage] Using in-memory storage - data is lost when the server stops');
+    return new MemStorage();
+  }
+  if (backend !== 'postgres') {
+    throw new Error(`Unknown STORAGE_BACKEND "${backend}" - use "postgres" or "memory"`);
+  }
+  if (!process.env.DATABASE_URL) {
+    throw new Error(
+      "DATABASE_URL must be set. Did you forget to provision a database? Use STORAGE_BACKEND=memory to run without one.",
+    );
   }
+  return new DatabaseStorage();
 }
 
-export const storage = new DatabaseStorage();
\ No newline at end of file
+export const storage: IStorage = createStorage(storageBackend);
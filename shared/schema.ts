@@ -1,25 +1,74 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, jsonb, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, json, jsonb, integer, real, boolean, index, uniqueIndex, customType } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// User accounts - local username/password login
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  username: text("username").notNull().unique(),
+  passwordHash: text("password_hash").notNull(), // scrypt, "salt:hash" in hex
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Login sessions, managed by connect-pg-simple (declared here so db:push keeps the table)
+export const authSessions = pgTable("auth_sessions", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [
+  index("auth_sessions_expire_idx").on(table.expire),
+]);
+
 // Workspaces table - higher level organization
 export const workspaces = pgTable("workspaces", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ownerId: varchar("owner_id").references(() => users.id, { onDelete: "cascade" }), // null for data created before accounts
   name: text("name").notNull(),
   description: text("description"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Workspace roles, least to most privileged: viewers read, editors also write, owners also
+// manage members, invitations and deletion. The workspace's ownerId is always an owner.
+export const workspaceRoles = ["viewer", "editor", "owner"] as const;
+export type WorkspaceRole = typeof workspaceRoles[number];
+
+// Workspace members - everyone besides the owner who can open the workspace's projects
+export const workspaceMembers = pgTable("workspace_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  role: text("role").notNull().default("viewer"), // WorkspaceRole
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("workspace_members_workspace_user_idx").on(table.workspaceId, table.userId),
+  index("workspace_members_user_idx").on(table.userId),
+]);
+
+// Invitation links - any signed-in user holding the token joins the workspace with its role
+export const workspaceInvites = pgTable("workspace_invites", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  token: text("token").notNull().unique(),
+  role: text("role").notNull().default("viewer"), // WorkspaceRole
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "cascade" }),
+  expiresAt: timestamp("expires_at"), // null: valid until revoked
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Projects table - top level containers
 export const projects = pgTable("projects", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   workspaceId: varchar("workspace_id").references(() => workspaces.id, { onDelete: "cascade" }),
+  ownerId: varchar("owner_id").references(() => users.id, { onDelete: "cascade" }),
   name: text("name").notNull(),
   description: text("description"),
   instructions: text("instructions"), // Project goals and context
   isTemplate: boolean("is_template").default(false), // For cloning functionality
   templateSource: varchar("template_source"), // Original project ID if cloned
+  budget: jsonb("budget"), // ProjectBudget - spend limit for LLM calls
+  promptTemplates: jsonb("prompt_templates"), // PromptTemplates - overrides the templates from settings
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -30,8 +79,13 @@ export const discussions = pgTable("discussions", {
   name: text("name").notNull(),
   context: jsonb("context").default([]), // for files/links
   currentPhase: text("current_phase").default("plasma"), // plasma, gas, liquid, solid
+  phaseHistory: jsonb("phase_history").default([]), // PhaseTransition[], oldest first
+  phaseLocked: boolean("phase_locked").default(false), // When set, the phase engine leaves currentPhase alone
   breathCount: integer("breath_count").default(0), // Number of breathing cycles
-  detectedPatterns: jsonb("detected_patterns").default([]), // Array of pattern strings
+  detectedPatterns: jsonb("detected_patterns").default([]), // Labels of the active (emerging or strong) patterns
+  generationOptions: jsonb("generation_options").default({}), // GenerationOverrides for this discussion
+  responseMode: jsonb("response_mode").default({}), // ResponseModeConfig - parallel or sequential relay
+  historySummary: jsonb("history_summary"), // HistorySummary - rolling summary of older turns
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -42,8 +96,12 @@ export const messages = pgTable("messages", {
   content: text("content").notNull(),
   sender: text("sender").notNull(), // 'user', 'claude', 'gpt4', 'deepseek', 'companion'
   llmProvider: text("llm_provider"), // null for user messages
+  metadata: jsonb("metadata").default({}), // MessageMetadata, e.g. debate round
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  // Full-text search (GET /api/search)
+  index("messages_content_search_idx").using("gin", sql`to_tsvector('english', ${table.content})`),
+]);
 
 // Context items for projects (files/links) - shared across all discussions in project
 export const contextItems = pgTable("context_items", {
@@ -56,14 +114,98 @@ export const contextItems = pgTable("context_items", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
-// LLM providers enum for validation
+// Built-in LLM providers - the server-side provider registry is the source of truth at runtime
 export const llmProviders = ["openai", "claude", "deepseek", "grok"] as const;
 export type LLMProvider = typeof llmProviders[number];
 
+// Provider metadata served by GET /api/providers so the UI can render toggles and settings
+export interface ProviderInfo {
+  id: string; // Router id, e.g. 'openai'
+  sender: string; // Message sender and toggle key, e.g. 'gpt4'
+  label: string; // Short name shown on badges and toggles
+  vendor: string; // Vendor name shown in settings
+  settingsKey: string; // Key under userSettings.apiKeys, e.g. 'anthropic'
+  color: string; // CSS color for badges and borders
+  foreground: string;
+  icon: string; // lucide-react icon name
+  keyPlaceholder: string;
+  models: { value: string; label: string }[];
+  defaultModel?: string;
+  defaultEndpoint?: string; // Shown as an editable endpoint field when set
+  contextWindow?: number; // Total tokens the model accepts (prompt + reply)
+  custom?: boolean; // User-defined OpenAI-compatible endpoint
+}
+
 // Message senders enum for validation
 export const messageSenders = ["user", "claude", "gpt4", "deepseek", "grok", "companion"] as const;
 export type MessageSender = typeof messageSenders[number];
 
+// Discussion response modes: every provider at once, or a relay where each sees the previous answers
+export const responseModes = ["parallel", "sequential"] as const;
+export type ResponseMode = typeof responseModes[number];
+
+// Extra information stored with a message
+export interface MessageMetadata {
+  round?: number; // Debate round, starting at 1
+  debateRole?: "argument" | "synthesis";
+  context?: ContextReport; // What went into the prompt that produced this reply
+  usage?: LLMUsage; // Tokens and cost of the call that produced this reply
+  announcement?: CompanionAnnouncement; // Set on companion announcements (breath, pattern, phase)
+}
+
+export const companionAnnouncements = ["breathIncrement", "patternComplete", "patternDissolved", "phaseTransition"] as const;
+export type CompanionAnnouncement = typeof companionAnnouncements[number];
+
+// Token counts for one provider call
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// What a provider adapter returns - usage is omitted when the API doesn't report it
+export interface ProviderResponse {
+  content: string;
+  usage?: TokenUsage;
+}
+
+// Token usage and cost of one provider call, as recorded on `llm_call` metrics
+export interface LLMUsage extends TokenUsage {
+  provider: string;
+  model: string;
+  costUsd: number;
+  estimated?: boolean; // Token counts were estimated from text length
+}
+
+// Current spend of a project against its budget
+export interface BudgetStatus extends ProjectBudget {
+  spentUsd: number;
+  exceeded: boolean;
+}
+
+// Rolling LLM-generated summary of a discussion's older messages
+export interface HistorySummary {
+  content: string;
+  messageCount: number; // Covers the discussion's first N messages
+  provider: string;
+  updatedAt: string;
+}
+
+// One piece of prompt context, as reported by the context builder
+export interface ContextEntry {
+  kind: "instructions" | "pinned" | "input" | "history" | "summary" | "context";
+  label: string;
+  tokens: number;
+}
+
+// What the context builder included or dropped for a provider call
+export interface ContextReport {
+  provider: string;
+  budget: number; // Estimated tokens available for the prompt
+  used: number;
+  included: ContextEntry[];
+  dropped: ContextEntry[];
+}
+
 // Context item types enum for validation
 export const contextTypes = ["file", "link"] as const;
 export type ContextType = typeof contextTypes[number];
@@ -72,19 +214,37 @@ export type ContextType = typeof contextTypes[number];
 export const agentModes = ["plasma", "gas", "liquid", "solid"] as const;
 export type AgentMode = typeof agentModes[number];
 
+// Discussions breathe through the same phases, in this order
+export const discussionPhases = agentModes;
+export type DiscussionPhase = AgentMode;
+
+export const phaseTransitionReasons = ["classification", "pattern", "breath", "manual"] as const;
+export type PhaseTransitionReason = typeof phaseTransitionReasons[number];
+
+export interface PhaseTransition {
+  from: DiscussionPhase;
+  to: DiscussionPhase;
+  reason: PhaseTransitionReason;
+  breathCount: number;
+  at: string; // ISO timestamp
+}
+
 // User settings table for API keys and preferences
 export const userSettings = pgTable("user_settings", {
-  id: varchar("id").primaryKey().default("default"),
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`), // "default" for settings saved before accounts
+  userId: varchar("user_id").unique().references(() => users.id, { onDelete: "cascade" }),
   apiKeys: jsonb("api_keys").default({}),
   preferences: jsonb("preferences").default({}),
   globalContext: jsonb("global_context").default([]),
   companionConfig: jsonb("companion_config").default({}),
+  promptTemplates: jsonb("prompt_templates").default({}), // PromptTemplates
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 // Global context table for files/links/instructions across all projects
 export const globalContext = pgTable("global_context", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ownerId: varchar("owner_id").references(() => users.id, { onDelete: "cascade" }),
   type: text("type").notNull(), // 'file', 'url', or 'instruction'
   content: text("content").notNull(),
   metadata: jsonb("metadata").default({}),
@@ -94,6 +254,7 @@ export const globalContext = pgTable("global_context", {
 // Companion agent table for monitoring and suggestions
 export const companionAgent = pgTable("companion_agent", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").unique().references(() => users.id, { onDelete: "cascade" }), // One companion per user
   observations: jsonb("observations").default([]),
   suggestions: jsonb("suggestions").default([]),
   patternMemory: jsonb("pattern_memory").default({}),
@@ -113,11 +274,13 @@ export const metrics = pgTable("metrics", {
 // Agents table - AI agents created by users or companion agent
 export const agents = pgTable("agents", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ownerId: varchar("owner_id").references(() => users.id, { onDelete: "cascade" }),
   name: text("name").notNull(),
   description: text("description"),
   currentMode: text("current_mode").notNull().default("plasma"), // plasma, gas, liquid, solid
   llmProvider: text("llm_provider").notNull().default("claude"), // openai, claude, deepseek
   systemPrompt: text("system_prompt"),
+  generationOptions: jsonb("generation_options").default({}), // GenerationOptions for this agent's provider
   createdBy: text("created_by").default("user"), // user, companion
   parentDiscussion: varchar("parent_discussion"), // discussionId if created by companion
   createdAt: timestamp("created_at").defaultNow(),
@@ -126,7 +289,7 @@ export const agents = pgTable("agents", {
 // Session tracking table
 export const sessions = pgTable("sessions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  userId: varchar("user_id").default("default"),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
   activeProjectId: varchar("active_project_id"),
   activeDiscussionId: varchar("active_discussion_id"),
   lastActivity: timestamp("last_activity").defaultNow(),
@@ -141,7 +304,80 @@ export const patternMemory = pgTable("pattern_memory", {
   lastAccessed: timestamp("last_accessed").defaultNow(),
 });
 
+// pgvector column without a fixed dimension, so embeddings from different models can share a table.
+// Requires `CREATE EXTENSION vector` on the database.
+const vector = customType<{ data: number[]; driverData: string }>({
+  dataType: () => "vector",
+  toDriver: (value) => JSON.stringify(value),
+  fromDriver: (value) => value.slice(1, -1).split(",").map(Number),
+});
+
+// Semantic memory - embedded LLM responses used for breathing pattern detection
+export const semanticMemories = pgTable("semantic_memories", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  discussionId: varchar("discussion_id").references(() => discussions.id, { onDelete: "cascade" }),
+  projectId: varchar("project_id").references(() => projects.id, { onDelete: "cascade" }),
+  workspaceId: varchar("workspace_id").references(() => workspaces.id, { onDelete: "cascade" }),
+  messageId: varchar("message_id").references(() => messages.id, { onDelete: "set null" }),
+  llm: text("llm").notNull(), // sender of the remembered message
+  content: text("content").notNull(),
+  embedding: vector("embedding").notNull(),
+  embeddingModel: text("embedding_model").notNull(), // only embeddings from the same model are compared
+  phase: text("phase").notNull().default("plasma"), // plasma, gas, liquid, solid
+  breathCount: integer("breath_count").default(0),
+  patterns: jsonb("patterns").default([]), // patterns detected in the discussion when stored
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("semantic_memories_discussion_idx").on(table.discussionId, table.createdAt),
+  index("semantic_memories_project_idx").on(table.projectId),
+  index("semantic_memories_workspace_idx").on(table.workspaceId),
+]);
+
+// Recurring patterns in a discussion, reinforced by each semantic detection pass and decaying in between
+export const patternStatuses = ["emerging", "strong", "complete", "dissolved"] as const;
+export type PatternStatus = typeof patternStatuses[number];
+
+export const patterns = pgTable("patterns", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  discussionId: varchar("discussion_id").notNull().references(() => discussions.id, { onDelete: "cascade" }),
+  label: text("label").notNull(),
+  strength: real("strength").notNull().default(0), // 0-1
+  status: text("status").notNull().default("emerging"), // PatternStatus
+  detections: integer("detections").notNull().default(1), // Passes that reinforced the pattern
+  messageIds: jsonb("message_ids").default([]), // Supporting message ids, oldest first
+  firstSeenAt: timestamp("first_seen_at").defaultNow(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(), // Strength decays from here
+  resolvedAt: timestamp("resolved_at"), // When it completed or dissolved
+}, (table) => [
+  index("patterns_discussion_idx").on(table.discussionId, table.status),
+]);
+
+// Read-only share links for a whole project or, with discussionId, a single discussion
+export const shareLinks = pgTable("share_links", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  token: text("token").notNull().unique(),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  discussionId: varchar("discussion_id").references(() => discussions.id, { onDelete: "cascade" }),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("share_links_project_idx").on(table.projectId),
+]);
+
 // Insert schemas
+export const insertUserSchema = createInsertSchema(users).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Registration and login form; the password is hashed before it reaches storage
+export const credentialsSchema = z.object({
+  username: z.string().trim().min(3, "At least 3 characters").max(40)
+    .regex(/^[a-zA-Z0-9_.-]+$/, "Use letters, digits, dots, dashes and underscores"),
+  password: z.string().min(8, "At least 8 characters").max(200)
+});
+
 export const insertProjectSchema = createInsertSchema(projects).omit({
   id: true,
   createdAt: true,
@@ -152,6 +388,37 @@ export const insertWorkspaceSchema = createInsertSchema(workspaces).omit({
   createdAt: true,
 });
 
+export const insertWorkspaceMemberSchema = createInsertSchema(workspaceMembers).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertWorkspaceInviteSchema = createInsertSchema(workspaceInvites).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertShareLinkSchema = createInsertSchema(shareLinks).omit({
+  id: true,
+  createdAt: true,
+});
+
+// POST /api/workspaces/:id/invites
+export const workspaceInviteRequestSchema = z.object({
+  role: z.enum(workspaceRoles).default("editor"),
+  expiresInDays: z.number().int().positive().max(365).nullable().default(7) // null: never expires
+});
+
+// PATCH /api/workspaces/:id/members/:userId
+export const workspaceMemberUpdateSchema = z.object({
+  role: z.enum(workspaceRoles)
+});
+
+// POST /api/projects/:id/shares - without a discussionId the whole project is shared
+export const shareLinkRequestSchema = z.object({
+  discussionId: z.string().nullable().optional()
+});
+
 export const insertDiscussionSchema = createInsertSchema(discussions).omit({
   id: true,
   createdAt: true,
@@ -169,6 +436,7 @@ export const insertContextItemSchema = createInsertSchema(contextItems).omit({
 
 export const insertUserSettingsSchema = createInsertSchema(userSettings).omit({
   id: true,
+  userId: true,
   updatedAt: true,
 });
 
@@ -187,10 +455,49 @@ export const insertAgentSchema = createInsertSchema(agents).omit({
   createdAt: true,
 });
 
+export const insertSemanticMemorySchema = createInsertSchema(semanticMemories, {
+  embedding: z.array(z.number()),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPatternSchema = createInsertSchema(patterns).omit({
+  id: true,
+});
+
 export const insertMetricSchema = createInsertSchema(metrics).omit({
   id: true,
 });
 
+// USD per million tokens
+export const modelPricingSchema = z.object({
+  input: z.number().min(0),
+  output: z.number().min(0)
+});
+
+// User-defined provider for any OpenAI-compatible chat-completions server (vLLM, llama.cpp, Ollama, ...)
+export const customProviderSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, "Use lowercase letters, digits and dashes"),
+  name: z.string().min(1),
+  baseUrl: z.string().url(), // e.g. http://localhost:8000/v1
+  model: z.string().min(1),
+  key: z.string().optional(),
+  headers: z.record(z.string()).default({}),
+  contextWindow: z.number().int().positive().default(8192),
+  pricing: modelPricingSchema.optional(), // Hosted endpoints; local servers are free
+  color: z.string().default("hsl(160, 60%, 40%)")
+});
+
+// Embeddings used by semantic memory. "auto" uses OpenAI when a key is set and the local embedder otherwise.
+export const embeddingProviders = ["auto", "openai", "compatible", "local"] as const;
+export const embeddingConfigSchema = z.object({
+  provider: z.enum(embeddingProviders).default("auto"),
+  baseUrl: z.string().url().optional(), // compatible only, e.g. http://localhost:11434/v1
+  model: z.string().optional(),
+  key: z.string().optional()
+});
+
 // API Configuration types
 export const apiConfigSchema = z.object({
   openai: z.object({
@@ -208,7 +515,9 @@ export const apiConfigSchema = z.object({
   grok: z.object({
     key: z.string(),
     model: z.enum(["grok-4-latest"]).default("grok-4-latest")
-  }).optional()
+  }).optional(),
+  custom: z.array(customProviderSchema).optional(),
+  embeddings: embeddingConfigSchema.optional()
 });
 
 export const preferencesSchema = z.object({
@@ -216,21 +525,194 @@ export const preferencesSchema = z.object({
   sequential: z.boolean().default(false),
   primaryLLM: z.enum(["openai", "anthropic", "deepseek", "grok"]).default("openai"),
   maxTokens: z.number().default(1000),
-  temperature: z.number().min(0).max(2).default(0.7)
+  temperature: z.number().min(0).max(2).default(0.7),
+  historyMessages: z.number().int().min(0).default(20),
+  historyTokens: z.number().int().min(0).default(4000)
+});
+
+// Per-call generation settings. Every field is optional so layers can be merged:
+// provider defaults < preferences < provider settings < discussion < agent
+export const generationOptionsSchema = z.object({
+  model: z.string().optional(),
+  maxTokens: z.number().int().positive().optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  endpoint: z.string().optional(),
+  historyMessages: z.number().int().min(0).optional(), // Earlier discussion messages sent as history
+  historyTokens: z.number().int().min(0).optional() // Approximate token budget for that history
+});
+
+// What discussions and agents may override. The endpoint is left out: requests carry the API key
+// of the user whose settings they run on, so only that user's own settings choose where they go.
+export const generationSamplingSchema = generationOptionsSchema.omit({ endpoint: true });
+
+// Discussion-level overrides: shared sampling values plus per-provider entries keyed by provider id
+export const generationOverridesSchema = generationOptionsSchema.pick({
+  maxTokens: true,
+  temperature: true,
+  historyMessages: true,
+  historyTokens: true
+}).extend({
+  providers: z.record(generationSamplingSchema).optional()
+});
+
+export const responseModeConfigSchema = z.object({
+  mode: z.enum(responseModes).optional(), // Falls back to preferences.sequential when unset
+  order: z.array(z.string()).default([]), // Provider ids in relay order; unlisted providers go last
+  incremental: z.boolean().default(true) // Show each relay answer as it is produced
+});
+
+// Per-request debate: N rebuttal rounds between enabled providers, then a judge synthesizes
+export const debateRequestSchema = z.object({
+  rounds: z.number().int().min(1).max(5).default(2),
+  judge: z.string() // Provider id of the synthesizer
+});
+
+// Per-project spend limit: warn once exceeded, or block further LLM calls
+export const projectBudgetSchema = z.object({
+  limitUsd: z.number().positive(),
+  period: z.enum(["day", "month", "total"]).default("month"),
+  action: z.enum(["warn", "block"]).default("warn")
+});
+
+// GET /api/metrics/series - one bucketed series over a time window, optionally filtered
+export const metricSeriesTypes = ["latency", "errors", "calls", "tokens"] as const;
+export const metricBuckets = ["minute", "hour", "day"] as const;
+export const metricsSeriesQuerySchema = z.object({
+  type: z.enum(metricSeriesTypes).default("calls"),
+  bucket: z.enum(metricBuckets).default("hour"),
+  from: z.coerce.date().optional(), // Defaults to 24 hours before `to`
+  to: z.coerce.date().optional(), // Defaults to now
+  provider: z.string().optional(),
+  projectId: z.string().optional(),
+  discussionId: z.string().optional()
+});
+
+// One bucket of a metrics series; which fields are set depends on the series type
+export interface MetricsSeriesPoint {
+  time: string; // Bucket start, ISO timestamp
+  p50?: number; // latency, ms
+  p95?: number;
+  calls?: number; // calls, errors
+  errors?: number;
+  errorRate?: number; // errors, 0-100
+  tokens?: number; // tokens
+  costUsd?: number;
+}
+
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(2).max(200),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  projectId: z.string().optional()
+});
+
+export const searchResultTypes = ["message", "discussion", "context"] as const;
+export type SearchResultType = typeof searchResultTypes[number];
+
+// One ranked hit from GET /api/search
+export interface SearchResult {
+  type: SearchResultType;
+  id: string; // message, discussion or context item id
+  title: string; // discussion or context item name
+  snippet: string;
+  score: number;
+  match: "text" | "semantic" | "both";
+  projectId: string;
+  projectName?: string;
+  discussionId?: string;
+  sender?: string; // messages only
+  createdAt?: string;
+}
+
+// GET /api/workspaces/:id/members - the workspace owner first, then the members
+export interface WorkspaceMemberInfo {
+  userId: string;
+  username: string;
+  role: WorkspaceRole;
+  primaryOwner: boolean; // The workspace's ownerId; its role cannot be changed or removed
+  joinedAt: string | null;
+}
+
+// GET /api/invites/:token - what accepting the invitation would grant
+export interface WorkspaceInvitePreview {
+  workspaceId: string;
+  workspaceName: string;
+  role: WorkspaceRole;
+  expired: boolean;
+  currentRole: WorkspaceRole | null; // The user's role in the workspace already, if any
+}
+
+// A read-only discussion behind a share link
+export interface SharedDiscussion {
+  discussion: Discussion;
+  messages: Message[];
+}
+
+// GET /api/shared/:token - read-only view of a shared project or discussion
+export interface SharedView {
+  kind: "project" | "discussion";
+  project: Pick<Project, "id" | "name" | "description" | "instructions">;
+  discussions: Discussion[]; // Only the shared one for a discussion link
+  contextItems: ContextItem[]; // Project links only
+  shared?: SharedDiscussion; // Discussion links only
+}
+
+// Phase-aware prompting: each provider's role instructions are wrapped in a template for
+// the discussion's current phase. `{role}` is replaced with the provider's own role.
+export const phaseTemplatesSchema = z.object({
+  plasma: z.string().optional(),
+  gas: z.string().optional(),
+  liquid: z.string().optional(),
+  solid: z.string().optional()
+});
+
+// Blank templates fall through: project provider > project > settings provider > settings > default
+export const promptTemplatesSchema = phaseTemplatesSchema.extend({
+  providers: z.record(phaseTemplatesSchema).optional() // Keyed by provider id
 });
 
+export const defaultPhaseTemplates: Record<DiscussionPhase, string> = {
+  plasma: "{role} We are in the plasma phase: diverge. Brainstorm freely, offer bold or unconventional ideas, and take a different angle from the other models rather than agreeing with them.",
+  gas: "{role} We are in the gas phase: research. Gather facts, prior work and evidence, and cite your sources or say where a claim comes from.",
+  liquid: "{role} We are in the liquid phase: synthesize. Build on the other models' responses, reconcile where they disagree and merge the strongest ideas into one view.",
+  solid: "{role} We are in the solid phase: deliver. Output concrete plans, steps or code that can be acted on directly, and skip open-ended discussion."
+};
+
+// Which memories a discussion's semantic pattern search compares against
+export const patternScopes = ["discussion", "project", "workspace", "global"] as const;
+export type PatternScope = typeof patternScopes[number];
+
+// "llm" names patterns with a short call to the primary provider, falling back to local keyphrases
+export const patternLabelSources = ["llm", "local"] as const;
+export type PatternLabelSource = typeof patternLabelSources[number];
+
 export const companionConfigSchema = z.object({
   enabled: z.boolean().default(false),
   autoSuggest: z.boolean().default(false),
   monitoringLevel: z.enum(["all", "active", "none"]).default("active"),
-  personality: z.string().default("You are a helpful AI assistant that monitors conversations and suggests improvements.")
+  personality: z.string().default("You are a helpful AI assistant that monitors conversations and suggests improvements."),
+  patternScope: z.enum(patternScopes).default("discussion"),
+  patternThreshold: z.number().min(0).max(1).default(0.8), // minimum cosine similarity for a match
+  minPatternMatches: z.number().int().min(1).default(2), // matches needed to count as a pattern
+  patternLabels: z.enum(patternLabelSources).default("llm") // how new patterns are named
 });
 
 // Types
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, 'passwordHash'>; // What the API returns for the signed-in user
+export type Credentials = z.infer<typeof credentialsSchema>;
 export type InsertWorkspace = z.infer<typeof insertWorkspaceSchema>;
 export type Workspace = typeof workspaces.$inferSelect;
+export type InsertWorkspaceMember = z.infer<typeof insertWorkspaceMemberSchema>;
+export type WorkspaceMember = typeof workspaceMembers.$inferSelect;
+export type InsertWorkspaceInvite = z.infer<typeof insertWorkspaceInviteSchema>;
+export type WorkspaceInvite = typeof workspaceInvites.$inferSelect;
+export type WorkspaceInviteRequest = z.infer<typeof workspaceInviteRequestSchema>;
 export type InsertProject = z.infer<typeof insertProjectSchema>;
 export type Project = typeof projects.$inferSelect;
+export type ProjectWithRole = Project & { role: WorkspaceRole }; // GET /api/projects/:id
+export type InsertShareLink = z.infer<typeof insertShareLinkSchema>;
+export type ShareLink = typeof shareLinks.$inferSelect;
 export type InsertDiscussion = z.infer<typeof insertDiscussionSchema>;
 export type Discussion = typeof discussions.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
@@ -248,10 +730,32 @@ export type GlobalContext = typeof globalContext.$inferSelect;
 export type InsertAgent = z.infer<typeof insertAgentSchema>;
 export type Agent = typeof agents.$inferSelect;
 
+// Semantic memory types
+export type InsertSemanticMemory = z.infer<typeof insertSemanticMemorySchema>;
+export type SemanticMemory = typeof semanticMemories.$inferSelect;
+
+// Pattern types
+export type InsertPattern = z.infer<typeof insertPatternSchema>;
+export type Pattern = typeof patterns.$inferSelect;
+
 // Metrics types
 export type InsertMetric = z.infer<typeof insertMetricSchema>;
 export type Metric = typeof metrics.$inferSelect;
 
 export type ApiConfig = z.infer<typeof apiConfigSchema>;
+export type EmbeddingConfig = z.infer<typeof embeddingConfigSchema>;
+export type CustomProviderConfig = z.infer<typeof customProviderSchema>;
+export type ModelPricing = z.infer<typeof modelPricingSchema>;
 export type Preferences = z.infer<typeof preferencesSchema>;
+export type GenerationOptions = z.infer<typeof generationOptionsSchema>;
+export type GenerationOverrides = z.infer<typeof generationOverridesSchema>;
+export type ResponseModeConfig = z.infer<typeof responseModeConfigSchema>;
+export type DebateRequest = z.infer<typeof debateRequestSchema>;
+export type ProjectBudget = z.infer<typeof projectBudgetSchema>;
+export type MetricsSeriesQuery = z.infer<typeof metricsSeriesQuerySchema>;
+export type SearchQuery = z.infer<typeof searchQuerySchema>;
+export type MetricSeriesType = typeof metricSeriesTypes[number];
+export type MetricBucket = typeof metricBuckets[number];
 export type CompanionConfig = z.infer<typeof companionConfigSchema>;
+export type PhaseTemplates = z.infer<typeof phaseTemplatesSchema>;
+export type PromptTemplates = z.infer<typeof promptTemplatesSchema>;